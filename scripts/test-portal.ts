@@ -0,0 +1,210 @@
+// Portal fill harness
+// Serves the forms in scripts/portal-fixtures, along with their request_form
+// API responses, and fills each one in headless Chromium with the same code
+// the app uses: the definition is loaded and parsed by loadPortalForm, or
+// falls back to the shared fields and overrides when the API fails. Fails if
+// any expected field didn't come out filled.
+// The fixtures are built by hand on the same assumptions as the fill code
+// (root_<section>_<field> ids, enum-index option values), so this checks the
+// loading, planning and verifying steps against each other. It is not a check
+// against foia.gov itself and won't notice foia.gov changing its forms.
+// Run with: npm run test:portal (after `npx playwright install chromium`)
+
+import * as fs from "fs";
+import * as http from "http";
+import * as path from "path";
+import { AddressInfo } from "net";
+import { Browser, chromium } from "playwright";
+import { fillPortalForm, loadPortalForm } from "@/lib/portal";
+import { FBI_ID } from "@/lib/portal/overrides";
+import { PortalFillBody } from "@/lib/portal-fill";
+
+const FIXTURE_DIR = path.join(__dirname, "portal-fixtures");
+
+interface Fixture {
+  name: string;
+  // <page>.html is the rendered form
+  page: string;
+  componentId: string;
+  // <response>.json is served as the component's request_form API response;
+  // null makes the API fail so the form falls back to the shared fields
+  response: string | null;
+  expected: string[];
+}
+
+const CONTACT_FIELDS = [
+  "root_requester_contact_name_first",
+  "root_requester_contact_name_last",
+  "root_requester_contact_email",
+  "root_requester_contact_company_organization",
+  "root_requester_contact_phone_number",
+  "root_requester_contact_address_line1",
+  "root_requester_contact_address_line2",
+  "root_requester_contact_address_city",
+  "root_requester_contact_address_state_province",
+  "root_requester_contact_address_zip_postal_code",
+  "root_requester_contact_address_country",
+];
+
+const FEE_FIELDS = [
+  "root_processing_fees_request_category",
+  "root_processing_fees_fee_waiver",
+  "root_processing_fees_fee_waiver_explanation",
+  "root_processing_fees_fee_amount_willing",
+  "root_expedited_processing_expedited_processing",
+];
+
+const FBI_FIELDS = [
+  ...CONTACT_FIELDS,
+  "root_supporting_docs_fbi_address_type",
+  "root_supporting_docs_fbi_state_domestic",
+  "root_supporting_docs_fbi_request_subject",
+  "root_supporting_docs_fbi_requester_type",
+  "root_supporting_docs_fbi_request_description",
+  "root_supporting_docs_fbi_citizen_confirm",
+  "root_supporting_docs_fbi_citizen_signature",
+  "root_supporting_docs_fbi_citizen_today",
+  ...FEE_FIELDS,
+];
+
+const FIXTURES: Fixture[] = [
+  {
+    // Response with the fields at the top level
+    name: "standard",
+    page: "standard",
+    componentId: "standard-fixture",
+    response: "standard",
+    expected: [
+      ...CONTACT_FIELDS,
+      "root_request_description_request_description",
+      ...FEE_FIELDS,
+    ],
+  },
+  {
+    // JSON:API response, with the fields under data.attributes
+    name: "fbi",
+    page: "fbi",
+    componentId: FBI_ID,
+    response: "fbi",
+    expected: FBI_FIELDS,
+  },
+  {
+    // No definition: the shared fields plus the FBI override's fallback fields
+    name: "fbi without a definition",
+    page: "fbi",
+    componentId: FBI_ID,
+    response: null,
+    expected: FBI_FIELDS,
+  },
+];
+
+// Every optional value is set so each field in the fixtures has something
+// to hold
+const BODY: Omit<PortalFillBody, "agencyId"> = {
+  firstName: "Jane",
+  lastName: "Doe",
+  organization: "Example News",
+  email: "jane.doe@example.com",
+  phone: "555-555-0100",
+  addressLine1: "1 Main Street",
+  addressLine2: "Suite 2",
+  city: "Albany",
+  state: "NY",
+  zip: "12207",
+  requestDescription:
+    "All contracts between the agency and Example Corp signed from January 1, 2023 through December 31, 2024.",
+  feeWaiverRequested: true,
+  feeWaiverReason: "Disclosure is in the public interest.",
+  maxFee: 50,
+  feeCategory: "news_media",
+};
+
+// Form pages at /<page>.html, and each fixture's API under
+// /<fixture index>/api so every fixture gets its own response
+function serveFixtures(): Promise<http.Server> {
+  const server = http.createServer((req, res) => {
+    const url = req.url || "";
+    const api = url.match(/^\/(\d+)\/api\/agency_components\/([^/]+)\/request_form$/);
+    const fixture = api ? FIXTURES[Number(api[1])] : undefined;
+    const filePath = api
+      ? fixture?.response && fixture.componentId === api[2]
+        ? path.join(FIXTURE_DIR, `${fixture.response}.json`)
+        : null
+      : url.endsWith(".html")
+        ? path.join(FIXTURE_DIR, path.basename(url))
+        : null;
+
+    if (!filePath || !fs.existsSync(filePath)) {
+      res.writeHead(404).end();
+      return;
+    }
+    res.writeHead(200, {
+      "Content-Type": api ? "application/json" : "text/html; charset=utf-8",
+    });
+    res.end(fs.readFileSync(filePath));
+  });
+  return new Promise((resolve) => server.listen(0, "127.0.0.1", () => resolve(server)));
+}
+
+async function main() {
+  const server = await serveFixtures();
+  const { port } = server.address() as AddressInfo;
+  let browser: Browser | undefined;
+  let failures = 0;
+
+  try {
+    browser = await chromium.launch({ headless: true });
+    for (const [index, fixture] of FIXTURES.entries()) {
+      const page = await browser.newPage();
+      page.setDefaultTimeout(5000);
+      await page.goto(`http://127.0.0.1:${port}/${fixture.page}.html`);
+
+      process.env.FOIA_API_BASE = `http://127.0.0.1:${port}/${index}/api`;
+      const form = await loadPortalForm(fixture.componentId);
+      if (form.fromSchema !== (fixture.response !== null)) {
+        failures++;
+        console.log(
+          `✗ ${fixture.name}: expected the form ${fixture.response ? "from the API response" : "to fall back to the shared fields"}`
+        );
+        await page.close();
+        continue;
+      }
+
+      const { report } = await fillPortalForm(
+        page,
+        { ...BODY, agencyId: fixture.componentId },
+        form
+      );
+
+      const problems = fixture.expected
+        .map((id) => report.find((r) => r.id === id) || { id, status: "not attempted" })
+        .filter((r) => r.status !== "filled");
+
+      if (problems.length === 0) {
+        console.log(`✓ ${fixture.name}: ${fixture.expected.length} fields filled`);
+      } else {
+        failures++;
+        console.log(`✗ ${fixture.name}: ${problems.length} of ${fixture.expected.length} fields not filled`);
+        for (const problem of problems) {
+          const detail = "message" in problem && problem.message ? ` (${problem.message})` : "";
+          console.log(`    ${problem.id}: ${problem.status}${detail}`);
+        }
+      }
+      await page.close();
+    }
+  } finally {
+    await browser?.close();
+    server.close();
+  }
+
+  if (failures > 0) {
+    console.log(`\n${failures} of ${FIXTURES.length} fixtures failed`);
+    process.exit(1);
+  }
+  console.log(`\nAll ${FIXTURES.length} fixtures passed`);
+}
+
+main().catch((error) => {
+  console.error("Portal harness error:", error);
+  process.exit(1);
+});
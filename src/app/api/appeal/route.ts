@@ -0,0 +1,162 @@
+import { NextRequest, NextResponse } from "next/server";
+import { FOIARequest, UserDetails } from "@/lib/types";
+import { getAnthropicClient, ANTHROPIC_MODEL } from "@/lib/anthropic";
+import { getRequest, updateRequest } from "@/lib/requests";
+import { getAppealDeadline, formatDeadline, toDay } from "@/lib/deadlines";
+import { FOIA_EXEMPTIONS } from "@/lib/exemptions";
+
+const SYSTEM_PROMPT = `You are an experienced FOIA attorney drafting administrative appeals of agency Freedom of Information Act determinations under 5 U.S.C. § 552(a)(6)(A).
+
+When drafting an appeal, you should:
+1. State plainly that the requester is appealing the determination and identify what was withheld or denied
+2. Address each cited exemption separately, explaining why it was misapplied or applied too broadly
+3. Invoke the foreseeable harm standard of 5 U.S.C. § 552(a)(8)(A) and the duty to release reasonably segregable portions under 5 U.S.C. § 552(b)
+4. Challenge the adequacy of the search if the agency found no or few records
+5. Ask for the specific relief sought: release of the withheld records, a new search, or a Vaughn index
+6. Keep a formal, respectful tone and do not invent facts that are not in the determination letter
+
+Write only the body of the letter: begin immediately after the salutation and stop before the closing. Do not include a date, addresses, salutation, closing or signature.`;
+
+function formatRequesterBlock(details: UserDetails): string {
+  const { address } = details;
+  return [
+    `${details.firstName} ${details.lastName}`,
+    address.line1,
+    address.line2,
+    `${address.city}, ${address.state} ${address.zip}`,
+    details.email,
+    details.phone,
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+function formatAddressee(request: FOIARequest): string {
+  const parentName =
+    "agency" in request.agency ? request.agency.agency.name : request.agency.parent_agency;
+  return ["FOIA Appeals Office", request.agency.name, parentName]
+    .filter((line, i, lines) => line && lines.indexOf(line) === i)
+    .join("\n");
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const {
+      requestId,
+      determinationText,
+      determinationDate,
+      exemptions = [],
+    }: {
+      requestId: string;
+      determinationText: string;
+      determinationDate: string;
+      exemptions?: string[];
+    } = await request.json();
+
+    // Validate required fields
+    if (!requestId || !determinationText?.trim() || !determinationDate) {
+      return NextResponse.json(
+        { error: "Missing required fields" },
+        { status: 400 }
+      );
+    }
+
+    if (isNaN(Date.parse(determinationDate))) {
+      return NextResponse.json(
+        { error: "Invalid determination date" },
+        { status: 400 }
+      );
+    }
+
+    const original = getRequest(requestId);
+    if (!original) {
+      return NextResponse.json({ error: "Request not found" }, { status: 404 });
+    }
+
+    const appealDue = getAppealDeadline(determinationDate);
+    const exemptionList = exemptions
+      .map((code) => {
+        const known = FOIA_EXEMPTIONS.find((e) => e.code === code);
+        return known ? `${code} - ${known.label}` : code;
+      })
+      .join("\n");
+
+    const anthropic = getAnthropicClient();
+    const message = await anthropic.messages.create({
+      model: ANTHROPIC_MODEL,
+      max_tokens: 2048,
+      messages: [
+        {
+          role: "user",
+          content: `Draft an administrative appeal of the following FOIA determination.
+
+ORIGINAL REQUEST (submitted to ${original.agency.name}${
+            original.submittedAt ? ` on ${formatDeadline(toDay(original.submittedAt))}` : ""
+          }${original.trackingNumber ? `, tracking number ${original.trackingNumber}` : ""}):
+${original.rephrasedRequest}
+
+DETERMINATION LETTER (dated ${formatDeadline(toDay(determinationDate))}):
+${determinationText}
+
+EXEMPTIONS CITED:
+${exemptionList || "None identified"}`,
+        },
+      ],
+      system: SYSTEM_PROMPT,
+    });
+
+    const content = message.content[0];
+    if (content.type !== "text") {
+      throw new Error("Unexpected response type");
+    }
+
+    const subject = `Freedom of Information Act Appeal${
+      original.trackingNumber ? ` - Request No. ${original.trackingNumber}` : ""
+    }`;
+
+    const letter = `${formatDeadline(toDay(new Date()))}
+
+${formatAddressee(original)}
+
+Re: ${subject}
+Original request: "FOIA Request - ${original.briefDescription}"${
+      original.submittedAt ? `, submitted ${formatDeadline(toDay(original.submittedAt))}` : ""
+    }
+
+Dear Appeals Officer:
+
+${content.text.trim()}
+
+Sincerely,
+
+${formatRequesterBlock(original.userDetails)}
+`;
+
+    const updated = updateRequest(requestId, {
+      determinationDate: new Date(determinationDate).toISOString(),
+      appeal: {
+        determinationDate: new Date(determinationDate).toISOString(),
+        determinationText,
+        exemptions,
+        subject,
+        letter,
+        appealDue: appealDue.toISOString(),
+        createdAt: new Date().toISOString(),
+      },
+    });
+
+    return NextResponse.json({
+      subject,
+      letter,
+      appealDue: appealDue.toISOString(),
+      appealWindowClosed: toDay(new Date()) > appealDue,
+      request: updated,
+    });
+  } catch (error) {
+    console.error("Appeal error:", error);
+    return NextResponse.json(
+      { error: "Failed to draft appeal" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getBulkImport } from "@/lib/bulk-imports";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const bulkImport = getBulkImport(id);
+    if (!bulkImport) {
+      return NextResponse.json({ error: "Import not found" }, { status: 404 });
+    }
+    return NextResponse.json(bulkImport);
+  } catch (error) {
+    console.error("Get bulk import error:", error);
+    return NextResponse.json(
+      { error: "Failed to load the import" },
+      { status: 500 }
+    );
+  }
+}
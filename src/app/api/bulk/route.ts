@@ -0,0 +1,159 @@
+import { after, NextRequest, NextResponse } from "next/server";
+import { AgencySubmitResult, BulkRowResult, UserDetails } from "@/lib/types";
+import {
+  BulkOptions,
+  BulkRow,
+  defaultBriefDescription,
+  findBulkAgency,
+  parseBulkCsv,
+  validateBulkRow,
+} from "@/lib/bulk";
+import { getAgencyById } from "@/lib/agencies";
+import { validateDetails } from "@/lib/requester";
+import { rephraseQuery } from "@/lib/rephrase";
+import { lintRequest } from "@/lib/request-lint";
+import { dispatchRequest } from "@/lib/dispatch";
+import { addBulkImportResult, createBulkImport, finishBulkImport } from "@/lib/bulk-imports";
+import { getEmailTransport, getSender, EmailAddress, EmailTransport } from "@/lib/email";
+
+// Draft, check and send one row. Rows never throw: every outcome, including
+// a failed rephrase, becomes that row's status in the report.
+async function processRow(
+  row: BulkRow,
+  options: BulkOptions & { userDetails: UserDetails; importId: string },
+  transport: EmailTransport | null,
+  sender: EmailAddress | null
+): Promise<BulkRowResult> {
+  const errors = validateBulkRow(row, options);
+  if (errors.length > 0) {
+    return { row: row.row, status: "invalid", message: errors.join(". ") };
+  }
+
+  let agency = findBulkAgency(row.agency);
+  let rephrasedRequest = row.request || row.query;
+  let briefDescription = row.briefDescription;
+
+  // Pre-written requests are filed as written; only bare queries are drafted
+  if (options.rephrase && !row.request) {
+    try {
+      // An empty answer list makes the model draft rather than ask questions
+      const draft = await rephraseQuery(row.query, []);
+      if ("clarifyingQuestions" in draft) {
+        return { row: row.row, status: "failed", message: "Could not draft the request" };
+      }
+      rephrasedRequest = draft.rephrased;
+      briefDescription = briefDescription || draft.briefDescription;
+      agency = agency || getAgencyById(draft.suggestedAgencies[0]?.componentId || "");
+    } catch (error) {
+      console.error(`Bulk rephrase error for row ${row.row}:`, error);
+      return { row: row.row, status: "failed", message: "Could not draft the request" };
+    }
+  }
+
+  if (!agency) {
+    return { row: row.row, status: "invalid", message: "No agency could be suggested" };
+  }
+
+  const findings = lintRequest(rephrasedRequest);
+  const blocking = findings.filter((f) => f.blocking);
+  if (blocking.length > 0) {
+    return { row: row.row, status: "invalid", message: blocking.map((f) => f.message).join(" ") };
+  }
+
+  let result: AgencySubmitResult;
+  try {
+    result = await dispatchRequest(
+      {
+        query: row.query,
+        rephrasedRequest,
+        briefDescription: briefDescription || defaultBriefDescription(rephrasedRequest),
+        agency,
+        userDetails: options.userDetails,
+        importId: options.importId,
+      },
+      transport,
+      sender
+    );
+  } catch (error) {
+    console.error(`Bulk dispatch error for row ${row.row}:`, error);
+    return { row: row.row, status: "failed", message: "Could not send the request", agency };
+  }
+
+  return {
+    row: row.row,
+    status: !result.success ? "failed" : result.channel === "email" ? "sent" : "queued",
+    message: result.message,
+    agency,
+    requestId: result.requestId,
+    emailSentTo: result.emailSentTo,
+    rephrasedRequest,
+    warnings: findings.map((f) => f.message),
+  };
+}
+
+// Rows go one at a time to keep within model and mail rate limits, each
+// result saved as soon as it is known
+async function runBulkImport(
+  importId: string,
+  rows: BulkRow[],
+  options: BulkOptions & { userDetails: UserDetails }
+) {
+  const transport = getEmailTransport();
+  const sender = getSender();
+  try {
+    for (const row of rows) {
+      addBulkImportResult(
+        importId,
+        await processRow(row, { ...options, importId }, transport, sender)
+      );
+    }
+  } catch (error) {
+    console.error("Bulk import error:", error);
+  } finally {
+    finishBulkImport(importId);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { csv, userDetails, rephrase } = await request.json();
+
+    if (!csv || typeof csv !== "string" || !userDetails || typeof userDetails !== "object") {
+      return NextResponse.json(
+        { error: "Missing required fields" },
+        { status: 400 }
+      );
+    }
+
+    // Every row's letter is built from these, so check them before queuing
+    const detailErrors = Object.values(validateDetails(userDetails));
+    if (detailErrors.length > 0) {
+      return NextResponse.json({ error: detailErrors[0] }, { status: 400 });
+    }
+
+    const { rows, errors } = parseBulkCsv(csv);
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: errors.join(". ") },
+        { status: 400 }
+      );
+    }
+
+    console.log(`Queued bulk import of ${rows.length} rows`);
+
+    // The rows are filed after the response goes out, and the page polls the
+    // import for each row's result
+    const bulkImport = createBulkImport(rows.length);
+    after(() =>
+      runBulkImport(bulkImport.id, rows, { rephrase: Boolean(rephrase), userDetails })
+    );
+
+    return NextResponse.json(bulkImport, { status: 202 });
+  } catch (error) {
+    console.error("Bulk submit error:", error);
+    return NextResponse.json(
+      { error: "Failed to process bulk submission" },
+      { status: 500 }
+    );
+  }
+}
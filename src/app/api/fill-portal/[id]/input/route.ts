@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { PortalInput } from "@/lib/types";
+import { sendPortalInput } from "@/lib/portal/sessions";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+function isPortalInput(input: unknown): input is PortalInput {
+  const value = (input || {}) as Record<string, unknown>;
+  switch (value.type) {
+    case "click":
+      return Number.isFinite(value.x) && Number.isFinite(value.y);
+    case "type":
+      return typeof value.text === "string";
+    case "press":
+      return typeof value.key === "string" && value.key.length > 0;
+    case "scroll":
+      return Number.isFinite(value.deltaY);
+    default:
+      return false;
+  }
+}
+
+// Forward a click or keystroke from the live view to the portal page
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const input = await request.json();
+    if (!isPortalInput(input)) {
+      return NextResponse.json({ error: "Invalid input" }, { status: 400 });
+    }
+
+    if (!(await sendPortalInput(id, input))) {
+      return NextResponse.json(
+        { error: "Portal session is not waiting for input" },
+        { status: 409 }
+      );
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Portal input error:", error);
+    return NextResponse.json({ error: "Failed to send input" }, { status: 500 });
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { endPortalSession, getPortalSession } from "@/lib/portal/sessions";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const session = getPortalSession(id);
+  if (!session) {
+    return NextResponse.json({ error: "Portal session not found" }, { status: 404 });
+  }
+  return NextResponse.json(session);
+}
+
+// End the session: the requester either submitted the form or gave up
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const outcome = request.nextUrl.searchParams.get("outcome");
+    const session = await endPortalSession(
+      id,
+      outcome === "submitted" ? "submitted" : "cancelled"
+    );
+    if (!session) {
+      return NextResponse.json({ error: "Portal session not found" }, { status: 404 });
+    }
+    return NextResponse.json(session);
+  } catch (error) {
+    console.error("End portal session error:", error);
+    return NextResponse.json({ error: "Failed to end portal session" }, { status: 500 });
+  }
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from "next/server";
+import { screenshotPortalSession } from "@/lib/portal/sessions";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const screenshot = await screenshotPortalSession(id);
+    if (!screenshot) {
+      return NextResponse.json({ error: "Portal session not found" }, { status: 404 });
+    }
+    return new NextResponse(new Uint8Array(screenshot), {
+      headers: { "Content-Type": "image/jpeg", "Cache-Control": "no-store" },
+    });
+  } catch (error) {
+    console.error("Portal screenshot error:", error);
+    return NextResponse.json({ error: "Failed to capture the portal" }, { status: 500 });
+  }
+}
@@ -0,0 +1,87 @@
+import { after, NextRequest, NextResponse } from "next/server";
+import {
+  MAX_MESSAGE_ATTACHMENT_BYTES,
+  parseRawMessage,
+  parseSendGridForm,
+  parseMailjetPayload,
+  ingestInboundMessage,
+  InboundMessage,
+  InboundSource,
+} from "@/lib/inbound";
+import { classifyAndApply } from "@/lib/classify";
+
+// Largest webhook body accepted: a message's attachments plus room for the
+// text and encoding overhead
+const MAX_BODY_BYTES = MAX_MESSAGE_ATTACHMENT_BYTES * 1.5;
+
+// Inbound-mail webhook for agency replies
+// Point the provider's inbound parse URL at /api/inbound?secret=<INBOUND_WEBHOOK_SECRET>.
+// The webhook refuses everything until that secret is set.
+// Accepts SendGrid Inbound Parse (multipart), Mailjet Parse API (JSON) and
+// raw RFC 822 messages (message/rfc822 or text/plain).
+export async function POST(request: NextRequest) {
+  const secret = process.env.INBOUND_WEBHOOK_SECRET;
+  if (!secret) {
+    return NextResponse.json(
+      { error: "Inbound mail is not configured" },
+      { status: 503 }
+    );
+  }
+  if (request.nextUrl.searchParams.get("secret") !== secret) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (Number(request.headers.get("content-length")) > MAX_BODY_BYTES) {
+    return NextResponse.json({ error: "Message too large" }, { status: 413 });
+  }
+
+  try {
+    const contentType = request.headers.get("content-type") || "";
+    let message: InboundMessage;
+    let source: InboundSource;
+
+    if (contentType.includes("multipart/form-data")) {
+      message = await parseSendGridForm(await request.formData());
+      source = "sendgrid";
+    } else if (contentType.includes("application/json")) {
+      message = parseMailjetPayload(await request.json());
+      source = "mailjet";
+    } else {
+      message = await parseRawMessage(Buffer.from(await request.arrayBuffer()));
+      source = "raw";
+    }
+
+    const { request: matched, correspondence } = ingestInboundMessage(message, source);
+
+    if (!matched) {
+      console.log("Inbound message did not match any request:", message.subject);
+    } else if (process.env.ANTHROPIC_API_KEY) {
+      // Classify once the provider has its answer, so a slow model call can't
+      // time the webhook out and bring the message back as a retry. This is
+      // best-effort; the reply is stored and can be reclassified from the
+      // dashboard.
+      after(async () => {
+        try {
+          await classifyAndApply(matched.id, correspondence.id);
+        } catch (classifyError) {
+          console.error("Failed to classify inbound message:", classifyError);
+        }
+      });
+    }
+
+    // Always answer 200 so providers don't retry messages we have already stored
+    return NextResponse.json({
+      success: true,
+      matched: matched !== null,
+      requestId: matched?.id,
+      status: matched?.status,
+      correspondenceId: correspondence.id,
+      attachments: correspondence.attachments.length,
+    });
+  } catch (error) {
+    console.error("Inbound mail error:", error);
+    return NextResponse.json(
+      { error: "Failed to process inbound message" },
+      { status: 500 }
+    );
+  }
+}
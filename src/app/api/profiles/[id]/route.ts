@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { updateProfile, deleteProfile } from "@/lib/profiles";
+import { checkProfile } from "@/lib/requester";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+
+  try {
+    const { name, kind, details } = await request.json();
+
+    const problem = checkProfile({ name, kind, details });
+    if (problem) {
+      return NextResponse.json({ error: problem }, { status: 400 });
+    }
+
+    const updated = updateProfile(id, { name: name.trim(), kind, details });
+    if (!updated) {
+      return NextResponse.json({ error: "Profile not found" }, { status: 404 });
+    }
+    return NextResponse.json(updated);
+  } catch (error) {
+    console.error("Update profile error:", error);
+    return NextResponse.json(
+      { error: "Failed to update profile" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+
+  try {
+    if (!deleteProfile(id)) {
+      return NextResponse.json({ error: "Profile not found" }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Delete profile error:", error);
+    return NextResponse.json(
+      { error: "Failed to delete profile" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { listProfiles, createProfile } from "@/lib/profiles";
+import { checkProfile } from "@/lib/requester";
+
+export async function GET() {
+  try {
+    return NextResponse.json(listProfiles());
+  } catch (error) {
+    console.error("List profiles error:", error);
+    return NextResponse.json(
+      { error: "Failed to load profiles" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { name, kind, details } = await request.json();
+
+    const problem = checkProfile({ name, kind, details });
+    if (problem) {
+      return NextResponse.json({ error: problem }, { status: 400 });
+    }
+
+    const profile = createProfile({ name: name.trim(), kind, details });
+    return NextResponse.json(profile, { status: 201 });
+  } catch (error) {
+    console.error("Create profile error:", error);
+    return NextResponse.json(
+      { error: "Failed to save profile" },
+      { status: 500 }
+    );
+  }
+}
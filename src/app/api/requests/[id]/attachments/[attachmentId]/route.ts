@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getRequest } from "@/lib/requests";
+import { readDataFile } from "@/lib/store";
+
+interface RouteContext {
+  params: Promise<{ id: string; attachmentId: string }>;
+}
+
+// Attachments come from agency email, so anything that could run script on
+// our origin (HTML, SVG, ...) is only ever downloaded
+const INLINE_TYPES = ["image/png", "image/jpeg", "application/pdf"];
+
+// Header values must be Latin-1, so the real name goes in filename* and an
+// ASCII copy in filename for older clients
+function contentDisposition(type: "inline" | "attachment", filename: string): string {
+  const ascii = filename.replace(/[^\x20-\x7e]/g, "_").replace(/["\\]/g, "");
+  const encoded = encodeURIComponent(filename).replace(
+    /['()*]/g,
+    (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+  return `${type}; filename="${ascii}"; filename*=UTF-8''${encoded}`;
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { id, attachmentId } = await params;
+
+  const found = getRequest(id);
+  const receipt = found?.portalReceipt;
+  const attachment = [
+    ...(found?.correspondence?.flatMap((c) => c.attachments) || []),
+    ...(receipt?.screenshot ? [receipt.screenshot] : []),
+    ...(receipt?.pdf ? [receipt.pdf] : []),
+  ].find((a) => a.id === attachmentId);
+
+  if (!attachment) {
+    return NextResponse.json({ error: "Attachment not found" }, { status: 404 });
+  }
+
+  const content = readDataFile(attachment.path);
+  if (!content) {
+    return NextResponse.json({ error: "Attachment file missing" }, { status: 404 });
+  }
+
+  const contentType = attachment.contentType.split(";")[0].trim().toLowerCase();
+  const isInline = INLINE_TYPES.includes(contentType);
+  return new NextResponse(new Uint8Array(content), {
+    headers: {
+      "Content-Type": isInline ? contentType : "application/octet-stream",
+      "Content-Disposition": contentDisposition(
+        isInline ? "inline" : "attachment",
+        attachment.filename
+      ),
+      "X-Content-Type-Options": "nosniff",
+    },
+  });
+}
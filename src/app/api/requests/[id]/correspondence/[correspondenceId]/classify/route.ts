@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { classifyAndApply } from "@/lib/classify";
+
+interface RouteContext {
+  params: Promise<{ id: string; correspondenceId: string }>;
+}
+
+// (Re)classify an agency reply with the Anthropic client
+export async function POST(_request: NextRequest, { params }: RouteContext) {
+  const { id, correspondenceId } = await params;
+
+  try {
+    const updated = await classifyAndApply(id, correspondenceId);
+    if (!updated) {
+      return NextResponse.json({ error: "Correspondence not found" }, { status: 404 });
+    }
+    return NextResponse.json(updated);
+  } catch (error) {
+    console.error("Classify error:", error);
+    return NextResponse.json(
+      { error: "Failed to classify correspondence" },
+      { status: 500 }
+    );
+  }
+}
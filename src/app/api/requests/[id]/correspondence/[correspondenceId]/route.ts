@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getRequest, updateClassification } from "@/lib/requests";
+
+interface RouteContext {
+  params: Promise<{ id: string; correspondenceId: string }>;
+}
+
+// Mark the action an agency reply asked for as done (or not done)
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const { id, correspondenceId } = await params;
+
+  try {
+    const { actionResolved } = await request.json();
+    if (typeof actionResolved !== "boolean") {
+      return NextResponse.json(
+        { error: "actionResolved must be a boolean" },
+        { status: 400 }
+      );
+    }
+
+    const found = getRequest(id);
+    const correspondence = found?.correspondence?.find((c) => c.id === correspondenceId);
+    if (!correspondence?.classification) {
+      return NextResponse.json(
+        { error: "Classified correspondence not found" },
+        { status: 404 }
+      );
+    }
+
+    const updated = updateClassification(id, correspondenceId, {
+      ...correspondence.classification,
+      actionResolvedAt: actionResolved ? new Date().toISOString() : undefined,
+    });
+    return NextResponse.json(updated);
+  } catch (error) {
+    console.error("Update correspondence error:", error);
+    return NextResponse.json(
+      { error: "Failed to update correspondence" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAnthropicClient, ANTHROPIC_MODEL } from "@/lib/anthropic";
+import { getRequest } from "@/lib/requests";
+import { getOpenFeeEstimate } from "@/lib/fees";
+
+const SYSTEM_PROMPT = `You help Freedom of Information Act requesters respond to agency fee estimates by narrowing the scope of their request.
+
+When narrowing a request, you should:
+1. Keep the core subject matter the requester is after
+2. Shorten the date range, limit the custodians or offices searched, or drop the broadest record types
+3. Prefer final reports, memos and decision documents over drafts and duplicative email chains
+4. Stay specific enough that the agency can search without asking for clarification
+5. Use the same formal language as the original request
+
+Respond with only the narrowed request text, with no preamble or explanation.`;
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Suggest a narrower version of the request that should cost less to process
+export async function POST(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+
+  try {
+    const found = getRequest(id);
+    if (!found) {
+      return NextResponse.json({ error: "Request not found" }, { status: 404 });
+    }
+
+    const estimate = getOpenFeeEstimate(found);
+    if (!estimate) {
+      return NextResponse.json({ error: "No open fee estimate" }, { status: 400 });
+    }
+
+    const anthropic = getAnthropicClient();
+    const message = await anthropic.messages.create({
+      model: ANTHROPIC_MODEL,
+      max_tokens: 1024,
+      messages: [
+        {
+          role: "user",
+          content: `${found.agency.name} estimated fees of $${estimate.amount.toFixed(2)} for this request, but the requester will only pay up to $${estimate.maxFee.toFixed(2)}.
+
+ORIGINAL REQUEST:
+${found.rephrasedRequest}
+
+AGENCY'S FEE LETTER:
+${estimate.correspondence.text}`,
+        },
+      ],
+      system: SYSTEM_PROMPT,
+    });
+
+    const content = message.content[0];
+    if (content.type !== "text") {
+      throw new Error("Unexpected response type");
+    }
+
+    return NextResponse.json({ narrowedRequest: content.text.trim() });
+  } catch (error) {
+    console.error("Narrow request error:", error);
+    return NextResponse.json(
+      { error: "Failed to suggest a narrower request" },
+      { status: 500 }
+    );
+  }
+}
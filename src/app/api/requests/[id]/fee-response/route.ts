@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getRequest, addFollowUp, updateClassification } from "@/lib/requests";
+import { getOpenFeeEstimate, isFeeResponseAction } from "@/lib/fees";
+import { getEmailTransport, getSender } from "@/lib/email";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Send the requester's answer to an open fee estimate and mark it resolved
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+
+  try {
+    const { action, subject, body } = await request.json();
+
+    if (
+      !isFeeResponseAction(action) ||
+      typeof subject !== "string" ||
+      typeof body !== "string" ||
+      !subject.trim() ||
+      !body.trim()
+    ) {
+      return NextResponse.json(
+        { success: false, message: "Missing required fields" },
+        { status: 400 }
+      );
+    }
+
+    const found = getRequest(id);
+    if (!found) {
+      return NextResponse.json(
+        { success: false, message: "Request not found" },
+        { status: 404 }
+      );
+    }
+
+    const estimate = getOpenFeeEstimate(found);
+    if (!estimate) {
+      return NextResponse.json(
+        { success: false, message: "This request has no open fee estimate." },
+        { status: 400 }
+      );
+    }
+
+    if (!found.agencyEmail) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: `No email address on file for ${found.agency.name}. Please send your response through their portal.`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const transport = getEmailTransport();
+    if (!transport) {
+      return NextResponse.json({
+        success: false,
+        message: "Email service not configured. Please contact the administrator.",
+      });
+    }
+
+    const sender = getSender();
+
+    if (!sender) {
+      return NextResponse.json({
+        success: false,
+        message: "Sender email not configured. Please contact the administrator.",
+      });
+    }
+
+    const { userDetails } = found;
+
+    try {
+      await transport.send({
+        from: sender,
+        to: found.agencyEmail,
+        replyTo: {
+          email: userDetails.email,
+          name: `${userDetails.firstName} ${userDetails.lastName}`,
+        },
+        subject: subject.trim(),
+        text: body.trim(),
+      });
+    } catch (sendError: unknown) {
+      console.error("Email send error:", sendError);
+
+      const errorMessage =
+        sendError instanceof Error ? sendError.message : "Unknown email error";
+
+      return NextResponse.json({
+        success: false,
+        message: `Failed to send fee response: ${errorMessage}`,
+      });
+    }
+
+    const now = new Date().toISOString();
+    addFollowUp(id, {
+      sentAt: now,
+      to: found.agencyEmail,
+      subject: subject.trim(),
+      body: body.trim(),
+    });
+    const updated = updateClassification(id, estimate.correspondence.id, {
+      ...estimate.correspondence.classification!,
+      actionResolvedAt: now,
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: `Fee response sent to ${found.agencyEmail}.`,
+      request: updated,
+    });
+  } catch (error) {
+    console.error("Fee response error:", error);
+    return NextResponse.json(
+      { success: false, message: "Failed to send fee response" },
+      { status: 500 }
+    );
+  }
+}
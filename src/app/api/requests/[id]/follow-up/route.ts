@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getRequest, addFollowUp } from "@/lib/requests";
+import { composeStatusInquiry, isOverdue } from "@/lib/follow-up";
+import { getEmailTransport, getSender } from "@/lib/email";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Preview the status-inquiry letter for a request
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+
+  const found = getRequest(id);
+  if (!found) {
+    return NextResponse.json({ error: "Request not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({
+    ...composeStatusInquiry(found),
+    to: found.agencyEmail || null,
+    overdue: isOverdue(found),
+  });
+}
+
+// Send the (possibly edited) status-inquiry letter to the agency
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+
+  try {
+    const found = getRequest(id);
+    if (!found) {
+      return NextResponse.json({ error: "Request not found" }, { status: 404 });
+    }
+
+    if (!found.agencyEmail) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: `No email address on file for ${found.agency.name}. Please send the follow-up through their portal.`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const body = (await request.json().catch(() => null)) || {};
+    const isOptionalString = (value: unknown) =>
+      value === undefined || value === null || typeof value === "string";
+    if (!isOptionalString(body.subject) || !isOptionalString(body.body)) {
+      return NextResponse.json(
+        { success: false, message: "subject and body must be text" },
+        { status: 400 }
+      );
+    }
+
+    const letter = composeStatusInquiry(found);
+    const subject: string = body.subject?.trim() || letter.subject;
+    const text: string = body.body?.trim() || letter.body;
+
+    const transport = getEmailTransport();
+    if (!transport) {
+      return NextResponse.json({
+        success: false,
+        message: "Email service not configured. Please contact the administrator.",
+      });
+    }
+
+    const sender = getSender();
+
+    if (!sender) {
+      return NextResponse.json({
+        success: false,
+        message: "Sender email not configured. Please contact the administrator.",
+      });
+    }
+
+    const { userDetails } = found;
+
+    try {
+      await transport.send({
+        from: sender,
+        to: found.agencyEmail,
+        replyTo: {
+          email: userDetails.email,
+          name: `${userDetails.firstName} ${userDetails.lastName}`,
+        },
+        subject,
+        text,
+      });
+    } catch (sendError: unknown) {
+      console.error("Email send error:", sendError);
+
+      const errorMessage =
+        sendError instanceof Error ? sendError.message : "Unknown email error";
+
+      return NextResponse.json({
+        success: false,
+        message: `Failed to send follow-up: ${errorMessage}`,
+      });
+    }
+
+    const updated = addFollowUp(id, {
+      sentAt: new Date().toISOString(),
+      to: found.agencyEmail,
+      subject,
+      body: text,
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: `Follow-up sent to ${found.agencyEmail}.`,
+      request: updated,
+    });
+  } catch (error) {
+    console.error("Follow-up error:", error);
+    return NextResponse.json(
+      { success: false, message: "Failed to send follow-up" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from "next/server";
+import { FOIARequestUpdate, TollingPeriod } from "@/lib/types";
+import { getRequest, updateRequest, deleteRequest } from "@/lib/requests";
+import { isRequestStatus } from "@/lib/request-status";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+
+  try {
+    const found = getRequest(id);
+    if (!found) {
+      return NextResponse.json({ error: "Request not found" }, { status: 404 });
+    }
+    return NextResponse.json(found);
+  } catch (error) {
+    console.error("Get request error:", error);
+    return NextResponse.json(
+      { error: "Failed to load request" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+
+  try {
+    const body = await request.json();
+    const update: FOIARequestUpdate = {};
+
+    if (body.status !== undefined) {
+      if (!isRequestStatus(body.status)) {
+        return NextResponse.json(
+          { error: `Invalid status: ${body.status}` },
+          { status: 400 }
+        );
+      }
+      update.status = body.status;
+    }
+    if (body.trackingNumber !== undefined) {
+      update.trackingNumber = String(body.trackingNumber).trim() || undefined;
+    }
+    if (body.submittedAt !== undefined) {
+      if (isNaN(Date.parse(body.submittedAt))) {
+        return NextResponse.json(
+          { error: "Invalid submittedAt date" },
+          { status: 400 }
+        );
+      }
+      update.submittedAt = new Date(body.submittedAt).toISOString();
+    }
+
+    if (body.determinationDate !== undefined) {
+      if (body.determinationDate && isNaN(Date.parse(body.determinationDate))) {
+        return NextResponse.json(
+          { error: "Invalid determinationDate" },
+          { status: 400 }
+        );
+      }
+      update.determinationDate = body.determinationDate
+        ? new Date(body.determinationDate).toISOString()
+        : undefined;
+    }
+    if (body.tollingPeriods !== undefined) {
+      const valid =
+        Array.isArray(body.tollingPeriods) &&
+        body.tollingPeriods.every(
+          (p: TollingPeriod | null) =>
+            p !== null &&
+            typeof p === "object" &&
+            typeof p.start === "string" &&
+            !isNaN(Date.parse(p.start)) &&
+            (!p.end || (typeof p.end === "string" && !isNaN(Date.parse(p.end))))
+        );
+      if (!valid) {
+        return NextResponse.json(
+          { error: "Invalid tollingPeriods" },
+          { status: 400 }
+        );
+      }
+      update.tollingPeriods = body.tollingPeriods;
+    }
+
+    const updated = updateRequest(id, update);
+    if (!updated) {
+      return NextResponse.json({ error: "Request not found" }, { status: 404 });
+    }
+    return NextResponse.json(updated);
+  } catch (error) {
+    console.error("Update request error:", error);
+    return NextResponse.json(
+      { error: "Failed to update request" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+
+  try {
+    if (!deleteRequest(id)) {
+      return NextResponse.json({ error: "Request not found" }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Delete request error:", error);
+    return NextResponse.json(
+      { error: "Failed to delete request" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from "next/server";
+import { NewFOIARequest } from "@/lib/types";
+import { listRequests, createRequest } from "@/lib/requests";
+import { isRequestStatus } from "@/lib/request-status";
+import { validateDetails } from "@/lib/requester";
+
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const status = searchParams.get("status");
+  const channel = searchParams.get("channel");
+  const batchId = searchParams.get("batchId");
+  const importId = searchParams.get("importId");
+
+  try {
+    let results = listRequests();
+
+    if (status) {
+      results = results.filter((r) => r.status === status);
+    }
+    if (channel) {
+      results = results.filter((r) => r.channel === channel);
+    }
+    if (batchId) {
+      results = results.filter((r) => r.batchId === batchId);
+    }
+    if (importId) {
+      results = results.filter((r) => r.importId === importId);
+    }
+
+    return NextResponse.json(results);
+  } catch (error) {
+    console.error("List requests error:", error);
+    return NextResponse.json(
+      { error: "Failed to load requests" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: Partial<NewFOIARequest> = await request.json();
+
+    // Validate required fields
+    if (
+      !body.rephrasedRequest ||
+      !body.agency ||
+      typeof body.agency !== "object" ||
+      typeof body.agency.id !== "string" ||
+      typeof body.agency.name !== "string" ||
+      !body.userDetails ||
+      typeof body.userDetails !== "object" ||
+      (body.channel !== "email" && body.channel !== "portal")
+    ) {
+      return NextResponse.json(
+        { error: "Missing required fields" },
+        { status: 400 }
+      );
+    }
+
+    const detailErrors = Object.values(validateDetails(body.userDetails));
+    if (detailErrors.length > 0) {
+      return NextResponse.json({ error: detailErrors[0] }, { status: 400 });
+    }
+
+    if (body.status !== undefined && !isRequestStatus(body.status)) {
+      return NextResponse.json(
+        { error: `Invalid status: ${body.status}` },
+        { status: 400 }
+      );
+    }
+
+    const created = createRequest({
+      query: body.query || "",
+      rephrasedRequest: body.rephrasedRequest,
+      briefDescription: body.briefDescription || "",
+      agency: body.agency,
+      userDetails: body.userDetails,
+      status: body.status || "draft",
+      channel: body.channel,
+      agencyEmail: body.agencyEmail,
+      submittedAt: body.submittedAt,
+      trackingNumber: body.trackingNumber,
+    });
+
+    return NextResponse.json(created, { status: 201 });
+  } catch (error) {
+    console.error("Create request error:", error);
+    return NextResponse.json(
+      { error: "Failed to save request" },
+      { status: 500 }
+    );
+  }
+}
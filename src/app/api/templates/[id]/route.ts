@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from "next/server";
+import { deleteTemplate } from "@/lib/templates";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+
+  try {
+    if (!deleteTemplate(id)) {
+      return NextResponse.json({ error: "Template not found" }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Delete template error:", error);
+    return NextResponse.json(
+      { error: "Failed to delete template" },
+      { status: 500 }
+    );
+  }
+}
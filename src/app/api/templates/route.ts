@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { NewRequestTemplate } from "@/lib/types";
+import { listTemplates, createTemplate } from "@/lib/templates";
+import { checkTemplate } from "@/lib/request-templates";
+
+export async function GET() {
+  try {
+    return NextResponse.json(listTemplates());
+  } catch (error) {
+    console.error("List templates error:", error);
+    return NextResponse.json(
+      { error: "Failed to load templates" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: Partial<NewRequestTemplate> = await request.json();
+
+    const problem = checkTemplate(body);
+    if (problem) {
+      return NextResponse.json({ error: problem }, { status: 400 });
+    }
+
+    const template = createTemplate({
+      name: body.name!.trim(),
+      description: body.description?.trim() || "",
+      mode: body.mode!,
+      text: body.text!.trim(),
+      briefDescription: body.briefDescription?.trim() || body.name!.trim(),
+      variables: body.variables!.map((v) => ({ key: v.key, label: v.label.trim(), type: v.type })),
+      recordTypes: Array.isArray(body.recordTypes) ? body.recordTypes : undefined,
+    });
+    return NextResponse.json(template, { status: 201 });
+  } catch (error) {
+    console.error("Create template error:", error);
+    return NextResponse.json(
+      { error: "Failed to save template" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,354 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import DetailsStep from "@/components/steps/DetailsStep";
+import { BulkImport, BulkRowStatus, UserDetails } from "@/lib/types";
+import {
+  BULK_TEMPLATE,
+  BulkRow,
+  bulkReportCsv,
+  findBulkAgency,
+  MAX_BULK_ROWS,
+  parseBulkCsv,
+  validateBulkRow,
+} from "@/lib/bulk";
+import { listDrafts } from "@/lib/drafts";
+
+type Stage = "upload" | "details" | "results";
+
+// How often a running import is checked for new row results
+const POLL_INTERVAL = 2000;
+
+const STATUS_STYLES: Record<BulkRowStatus, string> = {
+  sent: "bg-green-900/50 text-green-300",
+  queued: "bg-blue-900/50 text-blue-300",
+  failed: "bg-red-900/50 text-red-300",
+  invalid: "bg-amber-900/50 text-amber-300",
+};
+
+function download(filename: string, csv: string) {
+  const url = URL.createObjectURL(new Blob([csv], { type: "text/csv" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export default function BulkImportPage() {
+  const [stage, setStage] = useState<Stage>("upload");
+  const [csv, setCsv] = useState("");
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [rephrase, setRephrase] = useState(true);
+  const [userDetails, setUserDetails] = useState<UserDetails | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [bulkImport, setBulkImport] = useState<BulkImport | null>(null);
+
+  useEffect(() => {
+    // Start from the details on the latest wizard draft, if any
+    setUserDetails(listDrafts().find((d) => d.state.userDetails)?.state.userDetails || null);
+  }, []);
+
+  const importId = bulkImport?.id;
+  const isRunning = bulkImport?.status === "running";
+
+  useEffect(() => {
+    if (!importId || !isRunning) return;
+    const interval = setInterval(async () => {
+      try {
+        const res = await fetch(`/api/bulk/${importId}`);
+        if (res.ok) {
+          setBulkImport(await res.json());
+        }
+      } catch {
+        // Try again on the next tick; the rows keep being filed on the server
+      }
+    }, POLL_INTERVAL);
+    return () => clearInterval(interval);
+  }, [importId, isRunning]);
+
+  const parsed = csv.trim() ? parseBulkCsv(csv) : { rows: [] as BulkRow[], errors: [] };
+  const rowErrors = new Map(parsed.rows.map((row) => [row.row, validateBulkRow(row, { rephrase })]));
+  const validCount = parsed.rows.filter((row) => rowErrors.get(row.row)?.length === 0).length;
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setFileName(file.name);
+    setCsv(await file.text());
+  };
+
+  const handleSubmit = async (details: UserDetails) => {
+    setUserDetails(details);
+    setStage("results");
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/bulk", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ csv, userDetails: details, rephrase }),
+      });
+      const result = await res.json();
+      if (!res.ok) {
+        throw new Error(result.error || "Failed to submit your requests");
+      }
+      setBulkImport(result);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "An error occurred");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleReset = () => {
+    setStage("upload");
+    setCsv("");
+    setFileName(null);
+    setBulkImport(null);
+    setError(null);
+  };
+
+  const counts = (bulkImport?.results || []).reduce<Partial<Record<BulkRowStatus, number>>>(
+    (acc, r) => ({ ...acc, [r.status]: (acc[r.status] || 0) + 1 }),
+    {}
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-900">
+      {/* Header */}
+      <header className="border-b border-gray-700 bg-gray-800">
+        <div className="mx-auto max-w-4xl px-4 py-6 flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-white">Bulk Import</h1>
+            <p className="text-sm text-gray-400">
+              File many requests at once from a spreadsheet
+            </p>
+          </div>
+          <div className="flex items-center gap-4">
+            <Link href="/requests" className="text-sm text-gray-400 hover:text-white underline">
+              My Requests
+            </Link>
+            <Link
+              href="/"
+              className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-semibold text-white transition-colors hover:bg-blue-700"
+            >
+              New Request
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      <main className="mx-auto max-w-4xl px-4 py-8">
+        <div className="space-y-6 rounded-xl bg-gray-800 p-6 shadow-sm sm:p-8">
+          {stage === "upload" && (
+            <>
+              <div>
+                <h2 className="text-2xl font-bold text-white">Upload a CSV</h2>
+                <p className="mt-2 text-gray-400">
+                  One row per request. The <code className="text-gray-300">agency</code> column
+                  takes a name, abbreviation or component id. Give either an informal{" "}
+                  <code className="text-gray-300">query</code> or a finished{" "}
+                  <code className="text-gray-300">request</code>; an optional{" "}
+                  <code className="text-gray-300">briefDescription</code> sets the subject line.
+                  Up to {MAX_BULK_ROWS} rows.
+                </p>
+                <button
+                  type="button"
+                  onClick={() => download("foia-bulk-template.csv", BULK_TEMPLATE)}
+                  className="mt-2 text-sm text-blue-400 hover:text-blue-300 underline"
+                >
+                  Download a template
+                </button>
+              </div>
+
+              <div className="flex flex-wrap items-center gap-4">
+                <label className="cursor-pointer rounded-lg border border-gray-600 px-4 py-2 text-sm font-semibold text-gray-300 transition-colors hover:bg-gray-700">
+                  Choose File
+                  <input
+                    type="file"
+                    accept=".csv,text/csv"
+                    onChange={(e) => handleFile(e.target.files?.[0])}
+                    className="hidden"
+                  />
+                </label>
+                <span className="text-sm text-gray-400">{fileName || "No file chosen"}</span>
+              </div>
+
+              <label className="flex items-start gap-3 text-sm text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={rephrase}
+                  onChange={(e) => setRephrase(e.target.checked)}
+                  className="mt-1"
+                />
+                <span>
+                  Draft formal requests from queries
+                  <span className="block text-gray-400">
+                    Rows with a query but no request are rephrased, and get a suggested agency if
+                    none is given. Otherwise the query is filed as written.
+                  </span>
+                </span>
+              </label>
+
+              {parsed.errors.length > 0 && (
+                <div className="rounded-lg bg-red-900/50 p-4 text-red-300">
+                  <p className="font-medium">This file can&apos;t be imported</p>
+                  <ul className="mt-1 list-disc pl-5 text-sm">
+                    {parsed.errors.map((e) => (
+                      <li key={e}>{e}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {parsed.rows.length > 0 && (
+                <div className="overflow-x-auto rounded-lg border border-gray-600">
+                  <table className="w-full text-left text-sm">
+                    <thead className="bg-gray-700 text-gray-400">
+                      <tr>
+                        <th className="px-3 py-2 font-medium">Row</th>
+                        <th className="px-3 py-2 font-medium">Agency</th>
+                        <th className="px-3 py-2 font-medium">Query / Request</th>
+                        <th className="px-3 py-2 font-medium">Check</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-700">
+                      {parsed.rows.map((row) => {
+                        const errors = rowErrors.get(row.row) || [];
+                        const agency = findBulkAgency(row.agency);
+                        return (
+                          <tr key={row.row}>
+                            <td className="px-3 py-2 text-gray-400">{row.row}</td>
+                            <td className="px-3 py-2 text-white">
+                              {agency?.name || row.agency || (
+                                <span className="text-gray-400">Suggested</span>
+                              )}
+                            </td>
+                            <td className="max-w-md truncate px-3 py-2 text-gray-300">
+                              {row.request || row.query}
+                            </td>
+                            <td className={`px-3 py-2 ${errors.length ? "text-amber-300" : "text-green-300"}`}>
+                              {errors.length ? errors.join(". ") : "Ready"}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              <button
+                onClick={() => setStage("details")}
+                disabled={validCount === 0}
+                className="w-full rounded-lg bg-blue-600 px-6 py-3 font-semibold text-white transition-colors hover:bg-blue-700 disabled:opacity-50"
+              >
+                {validCount > 0
+                  ? `Continue with ${validCount} ${validCount === 1 ? "Request" : "Requests"}`
+                  : "Continue"}
+              </button>
+            </>
+          )}
+
+          {stage === "details" && (
+            <DetailsStep
+              initialDetails={userDetails}
+              onSubmit={handleSubmit}
+              onBack={() => setStage("upload")}
+            />
+          )}
+
+          {stage === "results" && (
+            <>
+              <div>
+                <h2 className="text-2xl font-bold text-white">
+                  {isSubmitting || isRunning ? "Filing Requests..." : "Results"}
+                </h2>
+                <p className="mt-2 text-gray-400">
+                  {isSubmitting
+                    ? `Queuing ${parsed.rows.length} rows...`
+                    : isRunning
+                      ? `Filed ${bulkImport.results.length} of ${bulkImport.total} rows. This can take a few minutes when requests are being drafted; you can leave this page and the rest will still be filed.`
+                      : bulkImport &&
+                      [
+                        `${counts.sent || 0} emailed`,
+                        `${counts.queued || 0} queued for portal submission`,
+                        `${counts.failed || 0} failed`,
+                        `${counts.invalid || 0} skipped`,
+                      ].join(", ") + "."}
+                </p>
+              </div>
+
+              {error && (
+                <div className="rounded-lg bg-red-900/50 p-4 text-red-300">
+                  <p className="font-medium">Error</p>
+                  <p className="text-sm">{error}</p>
+                </div>
+              )}
+
+              {bulkImport && (
+                <ul className="space-y-3">
+                  {bulkImport.results.map((result) => (
+                    <li key={result.row} className="rounded-lg border border-gray-600 p-3">
+                      <div className="flex items-center justify-between gap-3">
+                        <p className="min-w-0 truncate font-medium text-white">
+                          Row {result.row}
+                          {result.agency && ` · ${result.agency.name}`}
+                        </p>
+                        <span
+                          className={`flex-shrink-0 rounded-full px-2 py-0.5 text-xs font-medium ${STATUS_STYLES[result.status]}`}
+                        >
+                          {result.status}
+                        </span>
+                      </div>
+                      <p className="mt-1 text-sm text-gray-400">{result.message}</p>
+                      {result.warnings && result.warnings.length > 0 && (
+                        <ul className="mt-1 list-disc pl-5 text-xs text-amber-300">
+                          {result.warnings.map((w) => (
+                            <li key={w}>{w}</li>
+                          ))}
+                        </ul>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {!isSubmitting && !isRunning && (
+                <div className="flex gap-3">
+                  {bulkImport && (
+                    <button
+                      onClick={() =>
+                        download("foia-bulk-report.csv", bulkReportCsv(parsed.rows, bulkImport.results))
+                      }
+                      className="flex-1 rounded-lg border border-gray-600 px-6 py-3 font-semibold text-gray-300 transition-colors hover:bg-gray-700"
+                    >
+                      Download Report
+                    </button>
+                  )}
+                  <button
+                    onClick={handleReset}
+                    className="flex-1 rounded-lg bg-blue-600 px-6 py-3 font-semibold text-white transition-colors hover:bg-blue-700"
+                  >
+                    Import Another File
+                  </button>
+                </div>
+              )}
+
+              {bulkImport && (
+                <Link
+                  href={`/requests?import=${bulkImport.id}`}
+                  className="block text-center text-sm text-gray-400 hover:text-white underline"
+                >
+                  View These Requests
+                </Link>
+              )}
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
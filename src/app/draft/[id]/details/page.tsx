@@ -0,0 +1,5 @@
+import { DetailsRoute } from "@/components/wizard/WizardSteps";
+
+export default function DetailsPage() {
+  return <DetailsRoute />;
+}
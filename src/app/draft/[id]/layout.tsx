@@ -0,0 +1,18 @@
+import Wizard from "@/components/wizard/Wizard";
+import { WizardProvider } from "@/components/wizard/WizardContext";
+
+interface DraftLayoutProps {
+  params: Promise<{ id: string }>;
+  children: React.ReactNode;
+}
+
+// Each step is its own page under the draft; the layout keeps the wizard
+// state while moving between them
+export default async function DraftLayout({ params, children }: DraftLayoutProps) {
+  const { id } = await params;
+  return (
+    <WizardProvider draftId={id}>
+      <Wizard>{children}</Wizard>
+    </WizardProvider>
+  );
+}
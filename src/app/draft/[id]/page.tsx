@@ -0,0 +1,5 @@
+import { ResumeRoute } from "@/components/wizard/WizardSteps";
+
+export default function DraftPage() {
+  return <ResumeRoute />;
+}
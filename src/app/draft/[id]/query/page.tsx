@@ -0,0 +1,5 @@
+import { QueryRoute } from "@/components/wizard/WizardSteps";
+
+export default function QueryPage() {
+  return <QueryRoute />;
+}
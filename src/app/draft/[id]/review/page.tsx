@@ -0,0 +1,5 @@
+import { ReviewRoute } from "@/components/wizard/WizardSteps";
+
+export default function ReviewPage() {
+  return <ReviewRoute />;
+}
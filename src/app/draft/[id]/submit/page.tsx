@@ -0,0 +1,5 @@
+import { SubmitRoute } from "@/components/wizard/WizardSteps";
+
+export default function SubmitPage() {
+  return <SubmitRoute />;
+}
@@ -0,0 +1,112 @@
+"use client";
+
+import { useMemo, useSyncExternalStore } from "react";
+import Link from "next/link";
+import { WizardDraft } from "@/lib/types";
+import {
+  STEP_LABELS,
+  deleteDraft,
+  draftPath,
+  duplicateDraft,
+  getDraftsSnapshot,
+  listDrafts,
+  subscribeToDrafts,
+} from "@/lib/drafts";
+
+function formatUpdated(iso: string): string {
+  return new Date(iso).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+export default function DraftsPage() {
+  // Drafts live in this browser's storage, so there are none to show until
+  // the page hydrates
+  const stored = useSyncExternalStore(subscribeToDrafts, getDraftsSnapshot, () => null);
+  const drafts = useMemo(() => (stored === null ? null : listDrafts()), [stored]);
+
+  const handleDelete = (draft: WizardDraft) => {
+    if (!confirm("Delete this draft?")) return;
+    deleteDraft(draft.id);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-900">
+      {/* Header */}
+      <header className="border-b border-gray-700 bg-gray-800">
+        <div className="mx-auto max-w-4xl px-4 py-6 flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-white">Drafts</h1>
+            <p className="text-sm text-gray-400">Requests you have started but not sent</p>
+          </div>
+          <div className="flex items-center gap-4">
+            <Link href="/requests" className="text-sm text-gray-400 hover:text-white underline">
+              My Requests
+            </Link>
+            <Link
+              href="/"
+              className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-semibold text-white transition-colors hover:bg-blue-700"
+            >
+              New Request
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      <main className="mx-auto max-w-4xl px-4 py-8">
+        {drafts?.length === 0 && (
+          <p className="text-center text-gray-400">
+            No drafts. Anything you start in the wizard is saved here until you send it.
+          </p>
+        )}
+
+        <ul className="space-y-3">
+          {drafts?.map((draft) => {
+            const { state } = draft;
+            return (
+              <li
+                key={draft.id}
+                className="flex items-center justify-between gap-4 rounded-lg border border-gray-600 bg-gray-800 p-4"
+              >
+                <div className="min-w-0">
+                  <p className="truncate font-medium text-white">
+                    {state.rephraseResponse?.briefDescription || state.query || "Untitled draft"}
+                  </p>
+                  <p className="truncate text-sm text-gray-400">
+                    {STEP_LABELS[state.step]} step
+                    {state.selectedAgencies.length > 0 &&
+                      ` · ${state.selectedAgencies.map((a) => a.abbreviation || a.name).join(", ")}`}
+                    {` · Updated ${formatUpdated(draft.updatedAt)}`}
+                  </p>
+                </div>
+                <div className="flex flex-shrink-0 items-center gap-3">
+                  <Link
+                    href={draftPath(draft.id, state.step)}
+                    className="rounded-lg bg-blue-600 px-4 py-1.5 text-sm font-semibold text-white transition-colors hover:bg-blue-700"
+                  >
+                    Resume
+                  </Link>
+                  <button
+                    onClick={() => duplicateDraft(draft.id)}
+                    className="text-sm text-gray-400 hover:text-white underline"
+                  >
+                    Duplicate
+                  </button>
+                  <button
+                    onClick={() => handleDelete(draft)}
+                    className="text-sm text-red-400 hover:text-red-300 underline"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      </main>
+    </div>
+  );
+}
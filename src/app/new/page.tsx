@@ -0,0 +1,27 @@
+import Wizard from "@/components/wizard/Wizard";
+import { WizardProvider } from "@/components/wizard/WizardContext";
+import { QueryRoute } from "@/components/wizard/WizardSteps";
+import { getAgencyById } from "@/lib/agencies";
+
+interface NewRequestPageProps {
+  searchParams: Promise<{ query?: string | string[]; agency?: string | string[] }>;
+}
+
+// A new request, optionally prefilled by a link such as
+// /new?query=...&agency=<componentId>. The agency may be repeated to
+// preselect several.
+export default async function NewRequestPage({ searchParams }: NewRequestPageProps) {
+  const { query, agency } = await searchParams;
+  const agencies = (Array.isArray(agency) ? agency : agency ? [agency] : []).flatMap((id) => {
+    const found = getAgencyById(id);
+    return found ? [found] : [];
+  });
+
+  return (
+    <WizardProvider initialQuery={Array.isArray(query) ? query[0] : query} initialAgencies={agencies}>
+      <Wizard>
+        <QueryRoute />
+      </Wizard>
+    </WizardProvider>
+  );
+}
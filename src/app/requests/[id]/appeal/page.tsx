@@ -0,0 +1,322 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useParams } from "next/navigation";
+import Link from "next/link";
+import { FOIARequest } from "@/lib/types";
+import { FOIA_EXEMPTIONS, findCitedExemptions } from "@/lib/exemptions";
+import { getAppealDeadline, formatDeadline, toDay } from "@/lib/deadlines";
+
+type AppealStep = 1 | 2 | 3;
+
+export default function AppealWizard() {
+  const { id } = useParams<{ id: string }>();
+  const [request, setRequest] = useState<FOIARequest | null>(null);
+  const [step, setStep] = useState<AppealStep>(1);
+  const [determinationText, setDeterminationText] = useState("");
+  const [determinationDate, setDeterminationDate] = useState("");
+  const [exemptions, setExemptions] = useState<string[]>([]);
+  const [letter, setLetter] = useState("");
+  const [subject, setSubject] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [isDrafting, setIsDrafting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    const loadRequest = async () => {
+      try {
+        const response = await fetch(`/api/requests/${id}`);
+        if (!response.ok) {
+          throw new Error("Request not found");
+        }
+        const data: FOIARequest = await response.json();
+        setRequest(data);
+        setDeterminationDate(data.determinationDate?.slice(0, 10) || "");
+
+        // Resume a previously drafted appeal
+        if (data.appeal) {
+          setDeterminationText(data.appeal.determinationText);
+          setDeterminationDate(data.appeal.determinationDate.slice(0, 10));
+          setExemptions(data.appeal.exemptions);
+          setSubject(data.appeal.subject);
+          setLetter(data.appeal.letter);
+          setStep(3);
+        }
+      } catch (e) {
+        setError(e instanceof Error ? e.message : "An error occurred");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    loadRequest();
+  }, [id]);
+
+  const handleFileUpload = async (file: File | undefined) => {
+    if (!file) return;
+    setDeterminationText(await file.text());
+  };
+
+  const handleDeterminationContinue = () => {
+    // Pre-select the exemptions the letter cites
+    setExemptions((prev) =>
+      prev.length > 0 ? prev : findCitedExemptions(determinationText)
+    );
+    setStep(2);
+  };
+
+  const toggleExemption = (code: string) => {
+    setExemptions((prev) =>
+      prev.includes(code) ? prev.filter((c) => c !== code) : [...prev, code]
+    );
+  };
+
+  const handleDraft = async () => {
+    setIsDrafting(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/appeal", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          requestId: id,
+          determinationText,
+          determinationDate,
+          exemptions,
+        }),
+      });
+      if (!response.ok) {
+        throw new Error("Failed to draft your appeal");
+      }
+      const data = await response.json();
+      setSubject(data.subject);
+      setLetter(data.letter);
+      setRequest(data.request);
+      setStep(3);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "An error occurred");
+    } finally {
+      setIsDrafting(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(letter);
+    setCopied(true);
+  };
+
+  const handleDownload = () => {
+    const blob = new Blob([letter], { type: "text/plain" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "foia-appeal.txt";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const appealDue = determinationDate ? getAppealDeadline(determinationDate) : null;
+  const windowClosed = appealDue !== null && toDay(new Date()) > appealDue;
+
+  return (
+    <div className="min-h-screen bg-gray-900">
+      {/* Header */}
+      <header className="border-b border-gray-700 bg-gray-800">
+        <div className="mx-auto max-w-2xl px-4 py-6 flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-white">Appeal a Determination</h1>
+            <p className="text-sm text-gray-400">
+              {request ? request.agency.name : "Draft an administrative appeal"}
+            </p>
+          </div>
+          <Link
+            href="/requests"
+            className="text-sm text-gray-400 hover:text-white underline"
+          >
+            My Requests
+          </Link>
+        </div>
+      </header>
+
+      <main className="mx-auto max-w-2xl px-4 py-8">
+        <div className="rounded-xl bg-gray-800 p-6 shadow-sm sm:p-8 space-y-6">
+          {/* Error Display */}
+          {error && (
+            <div className="rounded-lg bg-red-900/50 p-4 text-red-300">
+              <p className="font-medium">Error</p>
+              <p className="text-sm">{error}</p>
+            </div>
+          )}
+
+          {isLoading && <p className="text-center text-gray-400">Loading request...</p>}
+
+          {request && appealDue && (
+            <div
+              className={`rounded-lg border p-3 text-sm ${
+                windowClosed
+                  ? "border-red-700 bg-red-900/30 text-red-300"
+                  : "border-blue-700 bg-blue-900/30 text-blue-300"
+              }`}
+            >
+              {windowClosed
+                ? `The 90-day appeal window closed on ${formatDeadline(appealDue)}.`
+                : `Your appeal must be filed by ${formatDeadline(appealDue)}.`}
+            </div>
+          )}
+
+          {/* Step 1: Determination letter */}
+          {request && step === 1 && (
+            <>
+              <div>
+                <h2 className="text-2xl font-bold text-white">The Agency&apos;s Response</h2>
+                <p className="mt-2 text-gray-400">
+                  Paste the determination letter you received, or upload it as a text file.
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <label
+                  htmlFor="determinationText"
+                  className="block text-sm font-medium text-gray-300"
+                >
+                  Determination letter
+                </label>
+                <textarea
+                  id="determinationText"
+                  rows={10}
+                  value={determinationText}
+                  onChange={(e) => setDeterminationText(e.target.value)}
+                  className="w-full rounded-lg border border-gray-600 bg-gray-700 px-4 py-3 text-white focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+                />
+                <input
+                  type="file"
+                  accept=".txt,.eml,text/plain"
+                  onChange={(e) => handleFileUpload(e.target.files?.[0])}
+                  className="text-sm text-gray-400"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <label
+                  htmlFor="determinationDate"
+                  className="block text-sm font-medium text-gray-300"
+                >
+                  Date of the determination
+                </label>
+                <input
+                  id="determinationDate"
+                  type="date"
+                  value={determinationDate}
+                  onChange={(e) => setDeterminationDate(e.target.value)}
+                  className="rounded-lg border border-gray-600 bg-gray-700 px-4 py-2 text-white focus:border-blue-500 focus:outline-none"
+                />
+              </div>
+
+              <button
+                type="button"
+                onClick={handleDeterminationContinue}
+                disabled={!determinationText.trim() || !determinationDate}
+                className="w-full rounded-lg bg-blue-600 px-6 py-3 font-semibold text-white transition-colors hover:bg-blue-700 disabled:cursor-not-allowed disabled:bg-gray-600"
+              >
+                Continue
+              </button>
+            </>
+          )}
+
+          {/* Step 2: Exemptions */}
+          {request && step === 2 && (
+            <>
+              <div>
+                <h2 className="text-2xl font-bold text-white">Exemptions Cited</h2>
+                <p className="mt-2 text-gray-400">
+                  We&apos;ve checked the exemptions we found in the letter. Adjust them if needed.
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                {FOIA_EXEMPTIONS.map((exemption) => (
+                  <label
+                    key={exemption.code}
+                    className="flex items-center gap-3 rounded-lg border border-gray-600 p-3 cursor-pointer hover:bg-gray-700"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={exemptions.includes(exemption.code)}
+                      onChange={() => toggleExemption(exemption.code)}
+                      className="h-4 w-4 rounded text-blue-600"
+                    />
+                    <span className="font-mono text-sm text-gray-300">{exemption.code}</span>
+                    <span className="text-sm text-white">{exemption.label}</span>
+                  </label>
+                ))}
+              </div>
+
+              <div className="flex gap-3">
+                <button
+                  type="button"
+                  onClick={() => setStep(1)}
+                  disabled={isDrafting}
+                  className="flex-1 rounded-lg border border-gray-600 px-6 py-3 font-semibold text-gray-300 transition-colors hover:bg-gray-700 disabled:opacity-50"
+                >
+                  Back
+                </button>
+                <button
+                  type="button"
+                  onClick={handleDraft}
+                  disabled={isDrafting}
+                  className="flex-1 rounded-lg bg-blue-600 px-6 py-3 font-semibold text-white transition-colors hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {isDrafting ? "Drafting appeal..." : "Draft Appeal"}
+                </button>
+              </div>
+            </>
+          )}
+
+          {/* Step 3: Appeal letter */}
+          {request && step === 3 && (
+            <>
+              <div>
+                <h2 className="text-2xl font-bold text-white">Your Appeal</h2>
+                <p className="mt-2 text-gray-400">
+                  Review and edit the letter, then send it to the agency&apos;s appeals office.
+                  Mark the envelope or email subject &quot;{subject}&quot;.
+                </p>
+              </div>
+
+              <textarea
+                rows={20}
+                value={letter}
+                onChange={(e) => setLetter(e.target.value)}
+                className="w-full rounded-lg border border-gray-600 bg-gray-700 px-4 py-3 text-sm text-white focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+              />
+
+              <div className="flex gap-3">
+                <button
+                  type="button"
+                  onClick={() => setStep(1)}
+                  className="flex-1 rounded-lg border border-gray-600 px-6 py-3 font-semibold text-gray-300 transition-colors hover:bg-gray-700"
+                >
+                  Start Over
+                </button>
+                <button
+                  type="button"
+                  onClick={handleDownload}
+                  className="flex-1 rounded-lg border border-gray-600 px-6 py-3 font-semibold text-gray-300 transition-colors hover:bg-gray-700"
+                >
+                  Download
+                </button>
+                <button
+                  type="button"
+                  onClick={handleCopy}
+                  className="flex-1 rounded-lg bg-blue-600 px-6 py-3 font-semibold text-white transition-colors hover:bg-blue-700"
+                >
+                  {copied ? "Copied!" : "Copy Letter"}
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
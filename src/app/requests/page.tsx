@@ -0,0 +1,289 @@
+"use client";
+
+import { useState, useEffect, useMemo } from "react";
+import Link from "next/link";
+import RequestCard from "@/components/requests/RequestCard";
+import { FOIARequest, FOIARequestUpdate, RequestStatus, SubmissionChannel } from "@/lib/types";
+import { REQUEST_STATUSES, STATUS_LABELS } from "@/lib/request-status";
+import { isOverdue } from "@/lib/follow-up";
+import { needsAction } from "@/lib/correspondence";
+
+type SortOrder = "newest" | "oldest" | "agency" | "status";
+
+export default function RequestsDashboard() {
+  const [requests, setRequests] = useState<FOIARequest[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [statusFilter, setStatusFilter] = useState<RequestStatus | "all">("all");
+  const [channelFilter, setChannelFilter] = useState<SubmissionChannel | "all">("all");
+  const [search, setSearch] = useState("");
+  const [overdueOnly, setOverdueOnly] = useState(false);
+  const [actionOnly, setActionOnly] = useState(false);
+  // Requests sent to several agencies at once share a batchId
+  const [batchFilter, setBatchFilter] = useState<string | null>(null);
+  // and requests filed from one bulk CSV share an importId
+  const [importFilter, setImportFilter] = useState<string | null>(null);
+  const [sortOrder, setSortOrder] = useState<SortOrder>("newest");
+
+  useEffect(() => {
+    const searchParams = new URLSearchParams(window.location.search);
+    setBatchFilter(searchParams.get("batch"));
+    setImportFilter(searchParams.get("import"));
+
+    const loadRequests = async () => {
+      try {
+        const response = await fetch("/api/requests");
+        if (!response.ok) {
+          throw new Error("Failed to load your requests");
+        }
+        setRequests(await response.json());
+      } catch (e) {
+        setError(e instanceof Error ? e.message : "An error occurred");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    loadRequests();
+  }, []);
+
+  const handleChange = (updated: FOIARequest) => {
+    setRequests((prev) => prev.map((r) => (r.id === updated.id ? updated : r)));
+  };
+
+  const handleUpdate = async (id: string, update: FOIARequestUpdate) => {
+    setError(null);
+    try {
+      const response = await fetch(`/api/requests/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(update),
+      });
+      if (!response.ok) {
+        throw new Error("Failed to update request");
+      }
+      handleChange(await response.json());
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "An error occurred");
+    }
+  };
+
+  const overdueCount = useMemo(() => requests.filter((r) => isOverdue(r)).length, [requests]);
+  const actionCount = useMemo(() => requests.filter(needsAction).length, [requests]);
+
+  const batchSizes = useMemo(() => {
+    const sizes: Record<string, number> = {};
+    for (const r of requests) {
+      if (r.batchId) sizes[r.batchId] = (sizes[r.batchId] || 0) + 1;
+    }
+    return sizes;
+  }, [requests]);
+
+  const visibleRequests = useMemo(() => {
+    const searchLower = search.trim().toLowerCase();
+    const filtered = requests.filter(
+      (r) =>
+        (statusFilter === "all" || r.status === statusFilter) &&
+        (channelFilter === "all" || r.channel === channelFilter) &&
+        (!overdueOnly || isOverdue(r)) &&
+        (!actionOnly || needsAction(r)) &&
+        (!batchFilter || r.batchId === batchFilter) &&
+        (!importFilter || r.importId === importFilter) &&
+        (!searchLower ||
+          r.agency.name.toLowerCase().includes(searchLower) ||
+          r.briefDescription.toLowerCase().includes(searchLower) ||
+          r.trackingNumber?.toLowerCase().includes(searchLower))
+    );
+
+    const submittedTime = (r: FOIARequest) => Date.parse(r.submittedAt || r.createdAt);
+
+    return filtered.sort((a, b) => {
+      switch (sortOrder) {
+        case "oldest":
+          return submittedTime(a) - submittedTime(b);
+        case "agency":
+          return a.agency.name.localeCompare(b.agency.name);
+        case "status":
+          return REQUEST_STATUSES.indexOf(a.status) - REQUEST_STATUSES.indexOf(b.status);
+        default:
+          return submittedTime(b) - submittedTime(a);
+      }
+    });
+  }, [
+    requests,
+    statusFilter,
+    channelFilter,
+    overdueOnly,
+    actionOnly,
+    batchFilter,
+    importFilter,
+    search,
+    sortOrder,
+  ]);
+
+  const selectClass =
+    "rounded-lg border border-gray-600 bg-gray-700 px-3 py-2 text-sm text-white focus:border-blue-500 focus:outline-none";
+
+  return (
+    <div className="min-h-screen bg-gray-900">
+      {/* Header */}
+      <header className="border-b border-gray-700 bg-gray-800">
+        <div className="mx-auto max-w-4xl px-4 py-6 flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-white">My Requests</h1>
+            <p className="text-sm text-gray-400">
+              Every FOIA request you have filed and where it stands
+            </p>
+          </div>
+          <Link
+            href="/"
+            className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-semibold text-white transition-colors hover:bg-blue-700"
+          >
+            New Request
+          </Link>
+        </div>
+      </header>
+
+      <main className="mx-auto max-w-4xl px-4 py-8 space-y-6">
+        {/* Filters */}
+        <div className="flex flex-wrap gap-3">
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search agency, description or tracking #..."
+            className="min-w-0 flex-1 rounded-lg border border-gray-600 bg-gray-700 px-4 py-2 text-sm text-white placeholder-gray-400 focus:border-blue-500 focus:outline-none"
+          />
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as RequestStatus | "all")}
+            className={selectClass}
+          >
+            <option value="all">All statuses</option>
+            {REQUEST_STATUSES.map((status) => (
+              <option key={status} value={status}>
+                {STATUS_LABELS[status]}
+              </option>
+            ))}
+          </select>
+          <select
+            value={channelFilter}
+            onChange={(e) => setChannelFilter(e.target.value as SubmissionChannel | "all")}
+            className={selectClass}
+          >
+            <option value="all">All channels</option>
+            <option value="email">Email</option>
+            <option value="portal">Portal</option>
+          </select>
+          <select
+            value={sortOrder}
+            onChange={(e) => setSortOrder(e.target.value as SortOrder)}
+            className={selectClass}
+          >
+            <option value="newest">Newest first</option>
+            <option value="oldest">Oldest first</option>
+            <option value="agency">Agency A-Z</option>
+            <option value="status">Status</option>
+          </select>
+        </div>
+
+        {batchFilter && (
+          <div className="flex items-center justify-between gap-3 rounded-lg border border-blue-700 bg-blue-900/30 p-4 text-blue-300">
+            <span className="text-sm">
+              Showing one request sent to {batchSizes[batchFilter] || 0} agencies.
+            </span>
+            <button
+              type="button"
+              onClick={() => setBatchFilter(null)}
+              className="text-sm underline hover:text-white"
+            >
+              Show all requests
+            </button>
+          </div>
+        )}
+
+        {importFilter && (
+          <div className="flex items-center justify-between gap-3 rounded-lg border border-blue-700 bg-blue-900/30 p-4 text-blue-300">
+            <span className="text-sm">
+              Showing the requests filed from one bulk import.
+            </span>
+            <button
+              type="button"
+              onClick={() => setImportFilter(null)}
+              className="text-sm underline hover:text-white"
+            >
+              Show all requests
+            </button>
+          </div>
+        )}
+
+        {overdueCount > 0 && (
+          <label className="flex items-center gap-3 rounded-lg border border-red-700 bg-red-900/30 p-4 text-red-300">
+            <input
+              type="checkbox"
+              checked={overdueOnly}
+              onChange={(e) => setOverdueOnly(e.target.checked)}
+              className="h-4 w-4 rounded"
+            />
+            <span className="text-sm">
+              {overdueCount} {overdueCount === 1 ? "request is" : "requests are"} past the
+              response deadline. Show only overdue requests.
+            </span>
+          </label>
+        )}
+
+        {actionCount > 0 && (
+          <label className="flex items-center gap-3 rounded-lg border border-amber-700 bg-amber-900/30 p-4 text-amber-300">
+            <input
+              type="checkbox"
+              checked={actionOnly}
+              onChange={(e) => setActionOnly(e.target.checked)}
+              className="h-4 w-4 rounded"
+            />
+            <span className="text-sm">
+              {actionCount} {actionCount === 1 ? "request is" : "requests are"} waiting on you.
+              Show only requests that need action.
+            </span>
+          </label>
+        )}
+
+        {/* Error Display */}
+        {error && (
+          <div className="rounded-lg bg-red-900/50 p-4 text-red-300">
+            <p className="font-medium">Error</p>
+            <p className="text-sm">{error}</p>
+          </div>
+        )}
+
+        {isLoading ? (
+          <p className="text-center text-gray-400">Loading requests...</p>
+        ) : requests.length === 0 ? (
+          <div className="rounded-xl bg-gray-800 p-8 text-center">
+            <p className="text-gray-300">You haven&apos;t filed any requests yet.</p>
+            <Link href="/" className="mt-2 inline-block text-sm text-blue-400 underline">
+              Create your first FOIA request
+            </Link>
+          </div>
+        ) : visibleRequests.length === 0 ? (
+          <p className="text-center text-gray-400">No requests match these filters.</p>
+        ) : (
+          <div className="rounded-xl bg-gray-800 p-4 space-y-3 sm:p-6">
+            <p className="text-sm text-gray-400">
+              Showing {visibleRequests.length} of {requests.length} requests
+            </p>
+            {visibleRequests.map((request) => (
+              <RequestCard
+                key={request.id}
+                request={request}
+                onUpdate={handleUpdate}
+                onChange={handleChange}
+                batchSize={request.batchId ? batchSizes[request.batchId] : undefined}
+                onShowBatch={setBatchFilter}
+              />
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,272 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import RequesterFields from "@/components/requester/RequesterFields";
+import { RequesterProfile, RequesterProfileKind, UserDetails } from "@/lib/types";
+import {
+  DEFAULT_DETAILS,
+  PROFILE_KINDS,
+  PROFILE_KIND_FEE_CATEGORY,
+  PROFILE_KIND_LABELS,
+  validateDetails,
+} from "@/lib/requester";
+
+interface ProfileDraft {
+  id?: string;
+  name: string;
+  kind: RequesterProfileKind;
+  details: UserDetails;
+}
+
+const NEW_PROFILE: ProfileDraft = { name: "", kind: "personal", details: DEFAULT_DETAILS };
+
+export default function SettingsPage() {
+  const [profiles, setProfiles] = useState<RequesterProfile[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [draft, setDraft] = useState<ProfileDraft | null>(null);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const loadProfiles = async () => {
+      try {
+        const response = await fetch("/api/profiles");
+        if (!response.ok) {
+          throw new Error("Failed to load your profiles");
+        }
+        setProfiles(await response.json());
+      } catch (e) {
+        setError(e instanceof Error ? e.message : "An error occurred");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    loadProfiles();
+  }, []);
+
+  const changeKind = (kind: RequesterProfileKind) => {
+    if (!draft) return;
+    // A new profile starts from the fee category its kind usually qualifies for
+    setDraft({
+      ...draft,
+      kind,
+      details: draft.id
+        ? draft.details
+        : { ...draft.details, feeCategory: PROFILE_KIND_FEE_CATEGORY[kind] },
+    });
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+
+    const newErrors = validateDetails(draft.details);
+    if (!draft.name.trim()) newErrors.name = "Profile name is required";
+    setErrors(newErrors);
+    if (Object.keys(newErrors).length > 0) return;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(draft.id ? `/api/profiles/${draft.id}` : "/api/profiles", {
+        method: draft.id ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: draft.name, kind: draft.kind, details: draft.details }),
+      });
+      const saved = await response.json();
+      if (!response.ok) {
+        throw new Error(saved.error || "Failed to save profile");
+      }
+      setProfiles((prev) =>
+        [...prev.filter((p) => p.id !== saved.id), saved].sort((a, b) =>
+          a.name.localeCompare(b.name)
+        )
+      );
+      setDraft(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "An error occurred");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (profile: RequesterProfile) => {
+    if (!confirm(`Delete the profile "${profile.name}"?`)) return;
+    setError(null);
+    try {
+      const response = await fetch(`/api/profiles/${profile.id}`, { method: "DELETE" });
+      if (!response.ok) {
+        throw new Error("Failed to delete profile");
+      }
+      setProfiles((prev) => prev.filter((p) => p.id !== profile.id));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "An error occurred");
+    }
+  };
+
+  const editProfile = (next: ProfileDraft) => {
+    setDraft(next);
+    setErrors({});
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-900">
+      {/* Header */}
+      <header className="border-b border-gray-700 bg-gray-800">
+        <div className="mx-auto max-w-2xl px-4 py-6 flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-white">Requester Profiles</h1>
+            <p className="text-sm text-gray-400">
+              Saved details for filing as yourself or for an organization
+            </p>
+          </div>
+          <Link href="/" className="text-sm text-gray-400 hover:text-white underline">
+            Back to FOIA Creator
+          </Link>
+        </div>
+      </header>
+
+      <main className="mx-auto max-w-2xl px-4 py-8 space-y-6">
+        {error && (
+          <div className="rounded-lg bg-red-900/50 p-4 text-red-300">
+            <p className="font-medium">Error</p>
+            <p className="text-sm">{error}</p>
+          </div>
+        )}
+
+        {draft ? (
+          <form
+            onSubmit={handleSave}
+            className="space-y-6 rounded-xl bg-gray-800 p-6 shadow-sm sm:p-8"
+          >
+            <h2 className="text-2xl font-bold text-white">
+              {draft.id ? "Edit Profile" : "New Profile"}
+            </h2>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div className="col-span-2">
+                <label htmlFor="profileName" className="block text-sm font-medium text-gray-300">
+                  Profile Name *
+                </label>
+                <input
+                  id="profileName"
+                  type="text"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  placeholder="e.g. Daily Ledger investigations desk"
+                  className={`mt-1 w-full rounded-lg border px-4 py-2 bg-gray-700 text-white placeholder-gray-400 ${
+                    errors.name ? "border-red-500" : "border-gray-600"
+                  } focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/20`}
+                />
+                {errors.name && <p className="mt-1 text-sm text-red-400">{errors.name}</p>}
+              </div>
+              <div>
+                <label htmlFor="profileKind" className="block text-sm font-medium text-gray-300">
+                  Kind
+                </label>
+                <select
+                  id="profileKind"
+                  value={draft.kind}
+                  onChange={(e) => changeKind(e.target.value as RequesterProfileKind)}
+                  className="mt-1 w-full rounded-lg border border-gray-600 bg-gray-700 px-3 py-2 text-white focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+                >
+                  {PROFILE_KINDS.map((kind) => (
+                    <option key={kind} value={kind}>
+                      {PROFILE_KIND_LABELS[kind]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <RequesterFields
+              details={draft.details}
+              errors={errors}
+              onChange={(details) => setDraft({ ...draft, details })}
+            />
+
+            <div className="flex gap-3">
+              <button
+                type="button"
+                onClick={() => setDraft(null)}
+                className="flex-1 rounded-lg border border-gray-600 px-6 py-3 font-semibold text-gray-300 transition-colors hover:bg-gray-700"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="flex-1 rounded-lg bg-blue-600 px-6 py-3 font-semibold text-white transition-colors hover:bg-blue-700 disabled:opacity-50"
+              >
+                {isSaving ? "Saving..." : "Save Profile"}
+              </button>
+            </div>
+          </form>
+        ) : (
+          <>
+            {isLoading ? (
+              <p className="text-center text-gray-400">Loading profiles...</p>
+            ) : profiles.length === 0 ? (
+              <p className="text-center text-gray-400">
+                No saved profiles yet. Save your details once and pick them when filing.
+              </p>
+            ) : (
+              <ul className="space-y-3">
+                {profiles.map((profile) => (
+                  <li
+                    key={profile.id}
+                    className="flex items-center justify-between gap-3 rounded-lg border border-gray-600 bg-gray-800 p-4"
+                  >
+                    <div className="min-w-0">
+                      <p className="font-medium text-white">
+                        {profile.name}{" "}
+                        <span className="ml-1 rounded-full bg-gray-700 px-2 py-0.5 text-xs text-gray-300">
+                          {PROFILE_KIND_LABELS[profile.kind]}
+                        </span>
+                      </p>
+                      <p className="truncate text-sm text-gray-400">
+                        {profile.details.firstName} {profile.details.lastName}
+                        {profile.details.organization && `, ${profile.details.organization}`} ·{" "}
+                        {profile.details.email}
+                      </p>
+                    </div>
+                    <div className="flex flex-shrink-0 gap-3">
+                      <button
+                        onClick={() =>
+                          editProfile({
+                            id: profile.id,
+                            name: profile.name,
+                            kind: profile.kind,
+                            details: profile.details,
+                          })
+                        }
+                        className="text-sm text-gray-400 hover:text-white underline"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => handleDelete(profile)}
+                        className="text-sm text-red-400 hover:text-red-300 underline"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <button
+              onClick={() => editProfile(NEW_PROFILE)}
+              className="w-full rounded-lg bg-blue-600 px-6 py-3 font-semibold text-white transition-colors hover:bg-blue-700"
+            >
+              New Profile
+            </button>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+"use client";
+
+import { LETTER_SECTIONS, LetterSection, LetterSections } from "@/lib/letter";
+
+interface LetterOptionsProps {
+  sections: LetterSections;
+  onToggle: (section: LetterSection) => void;
+  expeditedJustification: string;
+  onExpeditedJustificationChange: (value: string) => void;
+}
+
+export default function LetterOptions({
+  sections,
+  onToggle,
+  expeditedJustification,
+  onExpeditedJustificationChange,
+}: LetterOptionsProps) {
+  return (
+    <div className="space-y-3">
+      <h3 className="text-sm font-medium text-gray-400">Letter sections</h3>
+      <div className="flex flex-wrap gap-2">
+        {LETTER_SECTIONS.map((section) => (
+          <label
+            key={section.id}
+            className={`flex items-center gap-2 rounded-lg border border-gray-600 px-3 py-1.5 text-sm ${
+              section.required ? "opacity-60" : "cursor-pointer hover:bg-gray-700"
+            }`}
+          >
+            <input
+              type="checkbox"
+              checked={sections[section.id]}
+              disabled={section.required}
+              onChange={() => onToggle(section.id)}
+              className="h-4 w-4 rounded text-blue-600"
+            />
+            <span className="text-white">{section.label}</span>
+          </label>
+        ))}
+      </div>
+
+      {sections.expeditedProcessing && (
+        <div>
+          <label
+            htmlFor="expeditedJustification"
+            className="block text-sm font-medium text-gray-300"
+          >
+            Why does this request need expedited processing?
+          </label>
+          <textarea
+            id="expeditedJustification"
+            rows={3}
+            value={expeditedJustification}
+            onChange={(e) => onExpeditedJustificationChange(e.target.value)}
+            placeholder="Explain the compelling need, e.g. urgency to inform the public about government activity..."
+            className="mt-1 w-full rounded-lg border border-gray-600 bg-gray-700 px-4 py-2 text-sm text-white placeholder-gray-400 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+          />
+        </div>
+      )}
+    </div>
+  );
+}
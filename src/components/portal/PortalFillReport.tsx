@@ -0,0 +1,76 @@
+"use client";
+
+import { useState } from "react";
+import { PortalFieldReport, PortalFieldStatus } from "@/lib/types";
+
+interface PortalFillReportProps {
+  report: PortalFieldReport[];
+}
+
+const STATUS_LABELS: Record<PortalFieldStatus, string> = {
+  filled: "Filled",
+  missing: "Not on the form",
+  rejected: "Refused",
+  mismatch: "Didn't stick",
+  unanswered: "Needs an answer",
+};
+
+const STATUS_STYLES: Record<PortalFieldStatus, string> = {
+  filled: "bg-green-900/50 text-green-300",
+  missing: "bg-gray-600 text-gray-200",
+  rejected: "bg-red-900/50 text-red-300",
+  mismatch: "bg-amber-900/50 text-amber-300",
+  unanswered: "bg-amber-900/50 text-amber-300",
+};
+
+// Which portal fields were filled and verified, and which to finish by hand
+export default function PortalFillReport({ report }: PortalFillReportProps) {
+  const [showFilled, setShowFilled] = useState(false);
+  const filled = report.filter((r) => r.status === "filled");
+  const problems = report.filter((r) => r.status !== "filled");
+  const shown = showFilled ? [...problems, ...filled] : problems;
+
+  return (
+    <div className="space-y-2 rounded-lg border border-gray-600 p-3 text-sm">
+      <div className="flex items-center justify-between gap-3">
+        <p className={problems.length > 0 ? "text-amber-300" : "text-green-300"}>
+          {filled.length} of {report.length} fields filled and checked.
+          {problems.length > 0 && " Complete the rest by hand in the form below."}
+        </p>
+        {filled.length > 0 && (
+          <button
+            type="button"
+            onClick={() => setShowFilled((prev) => !prev)}
+            className="flex-shrink-0 text-gray-400 hover:text-white underline"
+          >
+            {showFilled ? "Hide" : "Show"} filled fields
+          </button>
+        )}
+      </div>
+
+      {shown.length > 0 && (
+        <ul className="space-y-2">
+          {shown.map((field) => (
+            <li key={field.id} className="rounded-lg bg-gray-700 p-2">
+              <div className="flex items-center justify-between gap-3">
+                <span className="text-white">{field.label}</span>
+                <span className={`rounded px-2 py-0.5 text-xs ${STATUS_STYLES[field.status]}`}>
+                  {STATUS_LABELS[field.status]}
+                </span>
+              </div>
+              {field.expected && field.status !== "filled" && (
+                <p className="mt-1 whitespace-pre-wrap break-words text-gray-300">
+                  <span className="text-gray-400">Enter:</span> {field.expected}
+                </p>
+              )}
+              {field.status === "mismatch" && field.actual !== undefined && (
+                <p className="text-gray-400">Form shows: {field.actual || "(empty)"}</p>
+              )}
+              {field.message && <p className="text-gray-400">{field.message}</p>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
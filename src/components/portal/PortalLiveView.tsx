@@ -0,0 +1,321 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { PortalInput, PortalSessionInfo } from "@/lib/types";
+
+interface PortalLiveViewProps {
+  session: PortalSessionInfo;
+  onEnded: (session: PortalSessionInfo) => void;
+}
+
+// How often the screenshot and session status are refreshed
+const REFRESH_INTERVAL = 1000;
+
+// Failed status checks in a row before the session is given up on; a network
+// blip or one server error shouldn't end it
+const MAX_POLL_FAILURES = 5;
+
+// Keys forwarded as presses; printable characters are typed instead
+const FORWARDED_KEYS = new Set([
+  "Backspace",
+  "Delete",
+  "Tab",
+  "Enter",
+  "Escape",
+  "ArrowUp",
+  "ArrowDown",
+  "ArrowLeft",
+  "ArrowRight",
+  "Home",
+  "End",
+  "PageUp",
+  "PageDown",
+]);
+
+// Buttons for the keys that matter most in the form, such as stepping
+// through a select (its dropdown isn't in the screenshot) or fixing a typo
+const KEY_BUTTONS = [
+  { key: "Shift+Tab", label: "⇧ Tab" },
+  { key: "Tab", label: "Tab" },
+  { key: "ArrowUp", label: "↑" },
+  { key: "ArrowDown", label: "↓" },
+  { key: "Backspace", label: "⌫" },
+  { key: "Enter", label: "Enter" },
+];
+
+// Sessions whose view just unmounted, cancelled unless the view mounts again
+// straight away (as React does to effects in development)
+const pendingCancels = new Map<string, ReturnType<typeof setTimeout>>();
+
+function cancelSession(id: string) {
+  fetch(`/api/fill-portal/${id}?outcome=cancelled`, { method: "DELETE", keepalive: true }).catch(
+    () => {}
+  );
+}
+
+// The Playwright key for a keydown, or null when it isn't forwarded
+function keyCombo(e: React.KeyboardEvent): string | null {
+  const isPrintable = e.key.length === 1;
+  if (!FORWARDED_KEYS.has(e.key) && !(isPrintable && (e.ctrlKey || e.metaKey))) {
+    return null;
+  }
+  const modifiers = [
+    e.ctrlKey && "Control",
+    e.altKey && "Alt",
+    e.metaKey && "Meta",
+    e.shiftKey && !isPrintable && "Shift",
+  ].filter(Boolean);
+  return [...modifiers, e.key].join("+");
+}
+
+function minutesLeft(expiresAt: string, now: number): number {
+  return Math.max(0, Math.ceil((new Date(expiresAt).getTime() - now) / 60000));
+}
+
+// The pre-filled portal form as it looks in the server's browser. Clicks on
+// the picture and typed text are forwarded to the page, so the requester can
+// solve the CAPTCHA and press the portal's Submit button from here.
+export default function PortalLiveView({ session: initial, onEnded }: PortalLiveViewProps) {
+  const [session, setSession] = useState(initial);
+  const [frame, setFrame] = useState(0);
+  const [now, setNow] = useState(() => Date.now());
+  const [text, setText] = useState("");
+  const [isEnding, setIsEnding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Set once the session has ended, so unmounting doesn't cancel it again
+  const endedRef = useRef(false);
+  const onEndedRef = useRef(onEnded);
+  // Inputs go one after another so typed keys arrive in order
+  const inputQueue = useRef<Promise<void>>(Promise.resolve());
+
+  useEffect(() => {
+    onEndedRef.current = onEnded;
+  }, [onEnded]);
+
+  useEffect(() => {
+    const id = initial.id;
+    clearTimeout(pendingCancels.get(id));
+    pendingCancels.delete(id);
+
+    const finish = (ended: PortalSessionInfo) => {
+      endedRef.current = true;
+      clearInterval(interval);
+      onEndedRef.current(ended);
+    };
+
+    let failures = 0;
+    const interval = setInterval(async () => {
+      setFrame((f) => f + 1);
+      setNow(Date.now());
+      try {
+        const res = await fetch(`/api/fill-portal/${id}`);
+        if (res.status === 404) {
+          finish({ ...initial, status: "expired", message: "Portal session not found" });
+          return;
+        }
+        if (!res.ok) {
+          throw new Error("Failed to check the portal session");
+        }
+        failures = 0;
+        const latest: PortalSessionInfo = await res.json();
+        setSession(latest);
+        if (latest.status !== "filling" && latest.status !== "awaiting_user") {
+          finish(latest);
+        }
+      } catch (e) {
+        if (++failures >= MAX_POLL_FAILURES) {
+          cancelSession(id);
+          finish({
+            ...initial,
+            status: "expired",
+            message: e instanceof Error ? e.message : "Lost touch with the portal session",
+          });
+        }
+      }
+    }, REFRESH_INTERVAL);
+
+    // Leaving the page mid-session shouldn't leave the browser running
+    const handlePageHide = () => {
+      if (!endedRef.current) cancelSession(id);
+    };
+    window.addEventListener("pagehide", handlePageHide);
+
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener("pagehide", handlePageHide);
+      if (!endedRef.current) {
+        pendingCancels.set(
+          id,
+          setTimeout(() => {
+            pendingCancels.delete(id);
+            cancelSession(id);
+          }, 0)
+        );
+      }
+    };
+  }, [initial]);
+
+  const send = (input: PortalInput) => {
+    const sent = inputQueue.current.then(() => deliver(input));
+    inputQueue.current = sent;
+    return sent;
+  };
+
+  const deliver = async (input: PortalInput) => {
+    setError(null);
+    try {
+      const res = await fetch(`/api/fill-portal/${session.id}/input`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(input),
+      });
+      if (!res.ok) {
+        const result = await res.json();
+        throw new Error(result.error || "Failed to send input");
+      }
+      setFrame((f) => f + 1);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to send input");
+    }
+  };
+
+  // Scale the click from the displayed picture back to the browser viewport
+  const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    send({
+      type: "click",
+      x: Math.round(((e.clientX - rect.left) / rect.width) * session.viewport.width),
+      y: Math.round(((e.clientY - rect.top) / rect.height) * session.viewport.height),
+    });
+  };
+
+  // Keys pressed while the picture has focus go to the page
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const combo = keyCombo(e);
+    if (combo) {
+      e.preventDefault();
+      send({ type: "press", key: combo });
+    } else if (e.key.length === 1 && !e.altKey) {
+      e.preventDefault();
+      send({ type: "type", text: e.key });
+    }
+  };
+
+  const handleType = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!text) return;
+    await send({ type: "type", text });
+    setText("");
+  };
+
+  const end = async (outcome: "submitted" | "cancelled") => {
+    setIsEnding(true);
+    try {
+      const res = await fetch(`/api/fill-portal/${session.id}?outcome=${outcome}`, {
+        method: "DELETE",
+      });
+      const result = await res.json();
+      if (!res.ok) {
+        throw new Error(result.error || "Failed to end the portal session");
+      }
+      endedRef.current = true;
+      onEnded(result);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to end the portal session");
+      setIsEnding(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-3 text-sm">
+        <p className="text-gray-300">{session.message}</p>
+        <p className="flex-shrink-0 text-gray-400">
+          Closes in {minutesLeft(session.expiresAt, now)} min without activity
+        </p>
+      </div>
+
+      <div
+        role="img"
+        aria-label="Portal form. Click to focus it, then type to send keys to the form."
+        tabIndex={0}
+        onClick={handleClick}
+        onKeyDown={handleKeyDown}
+        className="w-full cursor-pointer rounded-lg border border-gray-600 bg-white bg-contain bg-no-repeat focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+        style={{
+          aspectRatio: `${session.viewport.width} / ${session.viewport.height}`,
+          backgroundImage: `url(/api/fill-portal/${session.id}/screenshot?frame=${frame})`,
+        }}
+      />
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          onClick={() => send({ type: "scroll", deltaY: -600 })}
+          className="rounded-lg border border-gray-600 px-3 py-1.5 text-sm text-gray-300 hover:bg-gray-700"
+        >
+          Scroll Up
+        </button>
+        <button
+          type="button"
+          onClick={() => send({ type: "scroll", deltaY: 600 })}
+          className="rounded-lg border border-gray-600 px-3 py-1.5 text-sm text-gray-300 hover:bg-gray-700"
+        >
+          Scroll Down
+        </button>
+        {KEY_BUTTONS.map(({ key, label }) => (
+          <button
+            key={key}
+            type="button"
+            onClick={() => send({ type: "press", key })}
+            title={`Press ${key}`}
+            className="rounded-lg border border-gray-600 px-3 py-1.5 text-sm text-gray-300 hover:bg-gray-700"
+          >
+            {label}
+          </button>
+        ))}
+        <form onSubmit={handleType} className="flex flex-1 gap-2">
+          <input
+            type="text"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder="Paste or type into the selected field"
+            className="min-w-0 flex-1 rounded-lg border border-gray-600 bg-gray-700 px-3 py-1.5 text-sm text-white placeholder-gray-400 focus:border-blue-500 focus:outline-none"
+          />
+          <button
+            type="submit"
+            className="rounded-lg border border-gray-600 px-3 py-1.5 text-sm text-gray-300 hover:bg-gray-700"
+          >
+            Send
+          </button>
+        </form>
+      </div>
+
+      <p className="text-xs text-gray-400">
+        Click a field in the form, then type or use the keys above. Dropdowns don&apos;t open
+        here: click one, then choose with ↑ and ↓.
+      </p>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      <div className="flex gap-3">
+        <button
+          type="button"
+          onClick={() => end("cancelled")}
+          disabled={isEnding}
+          className="flex-1 rounded-lg border border-gray-600 px-4 py-2 text-sm font-semibold text-gray-300 transition-colors hover:bg-gray-700 disabled:opacity-50"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={() => end("submitted")}
+          disabled={isEnding}
+          className="flex-1 rounded-lg bg-green-600 px-4 py-2 text-sm font-semibold text-white transition-colors hover:bg-green-700 disabled:opacity-50"
+        >
+          I&apos;ve Submitted It
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+"use client";
+
+import { useState } from "react";
+import { Correspondence, FOIARequest } from "@/lib/types";
+import { CORRESPONDENCE_KIND_LABELS } from "@/lib/correspondence";
+
+interface CorrespondenceListProps {
+  requestId: string;
+  correspondence: Correspondence[];
+  onChange: (request: FOIARequest) => void;
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export default function CorrespondenceList({
+  requestId,
+  correspondence,
+  onChange,
+}: CorrespondenceListProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [classifyingId, setClassifyingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleClassify = async (correspondenceId: string) => {
+    setClassifyingId(correspondenceId);
+    setError(null);
+    try {
+      const response = await fetch(
+        `/api/requests/${requestId}/correspondence/${correspondenceId}/classify`,
+        { method: "POST" }
+      );
+      if (!response.ok) {
+        throw new Error("Failed to classify this reply");
+      }
+      onChange(await response.json());
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "An error occurred");
+    } finally {
+      setClassifyingId(null);
+    }
+  };
+
+  // Newest first
+  const messages = [...correspondence].sort((a, b) => b.receivedAt.localeCompare(a.receivedAt));
+
+  return (
+    <div className="space-y-2">
+      <button
+        type="button"
+        onClick={() => setIsOpen((prev) => !prev)}
+        className="text-sm text-blue-400 hover:text-blue-300 underline"
+      >
+        {isOpen ? "Hide" : "Show"} {messages.length} agency{" "}
+        {messages.length === 1 ? "reply" : "replies"}
+      </button>
+
+      {isOpen && error && <p className="text-sm text-red-400">{error}</p>}
+
+      {isOpen &&
+        messages.map((message) => (
+          <div key={message.id} className="rounded-lg border border-gray-600 p-3 text-sm">
+            <button
+              type="button"
+              onClick={() => setExpandedId(expandedId === message.id ? null : message.id)}
+              className="w-full text-left"
+            >
+              <div className="flex items-center justify-between gap-3">
+                <span className="font-medium text-white">{message.subject || "(no subject)"}</span>
+                <span className="flex-shrink-0 text-gray-400">
+                  {new Date(message.receivedAt).toLocaleDateString("en-US")}
+                </span>
+              </div>
+              <p className="text-gray-400">{message.from}</p>
+            </button>
+
+            {message.classification ? (
+              <div className="mt-2 space-y-1">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="rounded bg-gray-600 px-2 py-0.5 text-xs text-gray-200">
+                    {CORRESPONDENCE_KIND_LABELS[message.classification.kind]}
+                  </span>
+                  {message.classification.estimatedFee !== undefined && (
+                    <span className="text-xs text-gray-400">
+                      Estimated fee: ${message.classification.estimatedFee.toFixed(2)}
+                    </span>
+                  )}
+                  {message.classification.exemptions &&
+                    message.classification.exemptions.length > 0 && (
+                      <span className="text-xs text-gray-400">
+                        Exemptions: {message.classification.exemptions.join(", ")}
+                      </span>
+                    )}
+                </div>
+                <p className="text-gray-300">{message.classification.summary}</p>
+              </div>
+            ) : (
+              <button
+                type="button"
+                onClick={() => handleClassify(message.id)}
+                disabled={classifyingId !== null}
+                className="mt-2 text-xs text-blue-400 hover:text-blue-300 underline disabled:opacity-50"
+              >
+                {classifyingId === message.id ? "Classifying..." : "Classify"}
+              </button>
+            )}
+
+            {expandedId === message.id && (
+              <p className="mt-2 max-h-64 overflow-auto whitespace-pre-wrap text-gray-300">
+                {message.text}
+              </p>
+            )}
+
+            {message.attachments.length > 0 && (
+              <ul className="mt-2 space-y-1">
+                {message.attachments.map((attachment) => (
+                  <li key={attachment.id}>
+                    <a
+                      href={`/api/requests/${requestId}/attachments/${attachment.id}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-blue-400 hover:text-blue-300 underline"
+                    >
+                      {attachment.filename}
+                    </a>{" "}
+                    <span className="text-gray-500">({formatSize(attachment.size)})</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ))}
+    </div>
+  );
+}
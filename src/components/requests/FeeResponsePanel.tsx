@@ -0,0 +1,217 @@
+"use client";
+
+import { useState } from "react";
+import { FOIARequest, UserDetails } from "@/lib/types";
+import { FEE_CATEGORY_LABELS } from "@/lib/letter";
+import {
+  FeeEstimate,
+  FeeResponseAction,
+  FeeResponseOptions,
+  FEE_RESPONSE_ACTIONS,
+  composeFeeResponse,
+} from "@/lib/fees";
+
+interface FeeResponsePanelProps {
+  request: FOIARequest;
+  estimate: FeeEstimate;
+  initialAction: FeeResponseAction;
+  onSent: (updated: FOIARequest) => void;
+  onClose: () => void;
+}
+
+const inputClass =
+  "w-full rounded-lg border border-gray-600 bg-gray-700 px-3 py-2 text-sm text-white focus:border-blue-500 focus:outline-none";
+
+export default function FeeResponsePanel({
+  request,
+  estimate,
+  initialAction,
+  onSent,
+  onClose,
+}: FeeResponsePanelProps) {
+  const [action, setAction] = useState<FeeResponseAction>(initialAction);
+  const [options, setOptions] = useState<FeeResponseOptions>({
+    feeCategory: request.userDetails.feeCategory,
+  });
+  const [letter, setLetter] = useState(() => composeFeeResponse(request, estimate, initialAction));
+  const [isSuggesting, setIsSuggesting] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  // Regenerate the letter whenever the response or its details change
+  const update = (nextAction: FeeResponseAction, nextOptions: FeeResponseOptions) => {
+    setAction(nextAction);
+    setOptions(nextOptions);
+    setLetter(composeFeeResponse(request, estimate, nextAction, nextOptions));
+  };
+
+  const handleSuggest = async () => {
+    setIsSuggesting(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/requests/${request.id}/fee-response/narrow`, {
+        method: "POST",
+      });
+      if (!response.ok) {
+        throw new Error("Failed to suggest a narrower request");
+      }
+      const data = await response.json();
+      update("narrow", { ...options, narrowedRequest: data.narrowedRequest });
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "An error occurred");
+    } finally {
+      setIsSuggesting(false);
+    }
+  };
+
+  const handleSend = async () => {
+    setIsSending(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/requests/${request.id}/fee-response`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action, subject: letter.subject, body: letter.body }),
+      });
+      const result = await response.json();
+      if (result.success) {
+        onSent(result.request);
+        onClose();
+      } else {
+        setError(result.message || "Failed to send fee response");
+      }
+    } catch (e) {
+      console.error("Fee response error:", e);
+      setError("Failed to connect to the email service");
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(`Subject: ${letter.subject}\n\n${letter.body}`);
+    setCopied(true);
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border border-gray-600 bg-gray-900/50 p-3">
+      <div className="flex flex-wrap gap-2">
+        {FEE_RESPONSE_ACTIONS.map((option) => (
+          <button
+            key={option.id}
+            type="button"
+            onClick={() => update(option.id, options)}
+            className={`rounded-lg px-3 py-1.5 text-sm font-semibold transition-colors ${
+              action === option.id
+                ? "bg-blue-600 text-white"
+                : "border border-gray-600 text-gray-300 hover:bg-gray-700"
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {action === "narrow" && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between gap-3">
+            <label htmlFor={`narrowed-${request.id}`} className="text-sm text-gray-400">
+              Narrowed request
+            </label>
+            <button
+              type="button"
+              onClick={handleSuggest}
+              disabled={isSuggesting}
+              className="text-sm text-blue-400 hover:text-blue-300 underline disabled:opacity-50"
+            >
+              {isSuggesting ? "Suggesting..." : "Suggest with AI"}
+            </button>
+          </div>
+          <textarea
+            id={`narrowed-${request.id}`}
+            rows={5}
+            value={options.narrowedRequest ?? request.rephrasedRequest}
+            onChange={(e) => update(action, { ...options, narrowedRequest: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+      )}
+
+      {action === "contest" && (
+        <div className="space-y-2">
+          <label className="flex items-center gap-2 text-sm text-gray-400">
+            Correct fee category
+            <select
+              value={options.feeCategory}
+              onChange={(e) =>
+                update(action, {
+                  ...options,
+                  feeCategory: e.target.value as UserDetails["feeCategory"],
+                })
+              }
+              className="rounded-lg border border-gray-600 bg-gray-700 px-3 py-1.5 text-white focus:border-blue-500 focus:outline-none"
+            >
+              {Object.entries(FEE_CATEGORY_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <textarea
+            rows={3}
+            value={options.justification || ""}
+            onChange={(e) => update(action, { ...options, justification: e.target.value })}
+            placeholder="Why you qualify for this category (e.g. the outlet you write for)"
+            className={`${inputClass} placeholder-gray-400`}
+          />
+        </div>
+      )}
+
+      <input
+        type="text"
+        value={letter.subject}
+        onChange={(e) => setLetter({ ...letter, subject: e.target.value })}
+        className={inputClass}
+      />
+      <textarea
+        rows={12}
+        value={letter.body}
+        onChange={(e) => setLetter({ ...letter, body: e.target.value })}
+        className={inputClass}
+      />
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      <div className="flex gap-3">
+        <button
+          type="button"
+          onClick={onClose}
+          disabled={isSending}
+          className="flex-1 rounded-lg border border-gray-600 px-4 py-2 text-sm font-semibold text-gray-300 transition-colors hover:bg-gray-700 disabled:opacity-50"
+        >
+          Cancel
+        </button>
+        {request.agencyEmail ? (
+          <button
+            type="button"
+            onClick={handleSend}
+            disabled={isSending || !letter.subject.trim() || !letter.body.trim()}
+            className="flex-1 rounded-lg bg-blue-600 px-4 py-2 text-sm font-semibold text-white transition-colors hover:bg-blue-700 disabled:opacity-50"
+          >
+            {isSending ? "Sending..." : "Send Response"}
+          </button>
+        ) : (
+          <button
+            type="button"
+            onClick={handleCopy}
+            className="flex-1 rounded-lg bg-blue-600 px-4 py-2 text-sm font-semibold text-white transition-colors hover:bg-blue-700"
+          >
+            {copied ? "Copied!" : "Copy Letter"}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
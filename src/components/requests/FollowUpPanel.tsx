@@ -0,0 +1,124 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { FOIARequest } from "@/lib/types";
+
+interface FollowUpPanelProps {
+  request: FOIARequest;
+  onSent: (updated: FOIARequest) => void;
+  onClose: () => void;
+}
+
+export default function FollowUpPanel({ request, onSent, onClose }: FollowUpPanelProps) {
+  const [subject, setSubject] = useState("");
+  const [body, setBody] = useState("");
+  const [to, setTo] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    const loadPreview = async () => {
+      try {
+        const response = await fetch(`/api/requests/${request.id}/follow-up`);
+        if (!response.ok) {
+          throw new Error("Failed to generate follow-up letter");
+        }
+        const data = await response.json();
+        setSubject(data.subject);
+        setBody(data.body);
+        setTo(data.to);
+      } catch (e) {
+        setError(e instanceof Error ? e.message : "An error occurred");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    loadPreview();
+  }, [request.id]);
+
+  const handleSend = async () => {
+    setIsSending(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/requests/${request.id}/follow-up`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ subject, body }),
+      });
+      const result = await response.json();
+      if (result.success) {
+        onSent(result.request);
+        onClose();
+      } else {
+        setError(result.message || "Failed to send follow-up");
+      }
+    } catch (e) {
+      console.error("Follow-up error:", e);
+      setError("Failed to connect to the email service");
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(`Subject: ${subject}\n\n${body}`);
+    setCopied(true);
+  };
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-400">Drafting follow-up...</p>;
+  }
+
+  return (
+    <div className="space-y-3 rounded-lg border border-gray-600 bg-gray-900/50 p-3">
+      <p className="text-sm text-gray-400">
+        {to ? `Status inquiry to ${to}` : "No agency email on file - copy this into the agency's portal"}
+      </p>
+      <input
+        type="text"
+        value={subject}
+        onChange={(e) => setSubject(e.target.value)}
+        className="w-full rounded-lg border border-gray-600 bg-gray-700 px-3 py-2 text-sm text-white focus:border-blue-500 focus:outline-none"
+      />
+      <textarea
+        rows={12}
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        className="w-full rounded-lg border border-gray-600 bg-gray-700 px-3 py-2 text-sm text-white focus:border-blue-500 focus:outline-none"
+      />
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      <div className="flex gap-3">
+        <button
+          type="button"
+          onClick={onClose}
+          disabled={isSending}
+          className="flex-1 rounded-lg border border-gray-600 px-4 py-2 text-sm font-semibold text-gray-300 transition-colors hover:bg-gray-700 disabled:opacity-50"
+        >
+          Cancel
+        </button>
+        {to ? (
+          <button
+            type="button"
+            onClick={handleSend}
+            disabled={isSending || !subject.trim() || !body.trim()}
+            className="flex-1 rounded-lg bg-blue-600 px-4 py-2 text-sm font-semibold text-white transition-colors hover:bg-blue-700 disabled:opacity-50"
+          >
+            {isSending ? "Sending..." : "Send Follow-Up"}
+          </button>
+        ) : (
+          <button
+            type="button"
+            onClick={handleCopy}
+            className="flex-1 rounded-lg bg-blue-600 px-4 py-2 text-sm font-semibold text-white transition-colors hover:bg-blue-700"
+          >
+            {copied ? "Copied!" : "Copy Letter"}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
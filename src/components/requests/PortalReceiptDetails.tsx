@@ -0,0 +1,67 @@
+"use client";
+
+import { useState } from "react";
+import { PortalReceipt } from "@/lib/types";
+
+interface PortalReceiptDetailsProps {
+  requestId: string;
+  receipt: PortalReceipt;
+}
+
+// What the portal confirmed and what was typed into it
+export default function PortalReceiptDetails({ requestId, receipt }: PortalReceiptDetailsProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="space-y-2 rounded-lg bg-gray-700 p-3 text-sm">
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1">
+        <span>
+          <span className="text-gray-400">Portal confirmation:</span>{" "}
+          <span className="font-mono text-white">
+            {receipt.confirmationNumber || "Not shown"}
+          </span>
+        </span>
+        {receipt.screenshot && (
+          <a
+            href={`/api/requests/${requestId}/attachments/${receipt.screenshot.id}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-blue-400 hover:text-blue-300 underline"
+          >
+            Screenshot
+          </a>
+        )}
+        {receipt.pdf && (
+          <a
+            href={`/api/requests/${requestId}/attachments/${receipt.pdf.id}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-blue-400 hover:text-blue-300 underline"
+          >
+            PDF
+          </a>
+        )}
+        {receipt.submittedValues.length > 0 && (
+          <button
+            type="button"
+            onClick={() => setIsOpen((prev) => !prev)}
+            className="text-blue-400 hover:text-blue-300 underline"
+          >
+            {isOpen ? "Hide" : "Show"} submitted values
+          </button>
+        )}
+      </div>
+
+      {isOpen && (
+        <dl className="grid grid-cols-1 gap-x-4 gap-y-1 sm:grid-cols-[auto_1fr]">
+          {receipt.submittedValues.map((field) => (
+            <div key={field.id} className="contents">
+              <dt className="text-gray-400">{field.label}</dt>
+              <dd className="whitespace-pre-wrap break-words text-white">{field.value}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,376 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { FOIARequest, FOIARequestUpdate, PortalOutcome, RequestStatus } from "@/lib/types";
+import { REQUEST_STATUSES, STATUS_LABELS, STATUS_STYLES } from "@/lib/request-status";
+import { getDeadlines, formatDeadline } from "@/lib/deadlines";
+import { isOverdue } from "@/lib/follow-up";
+import { CORRESPONDENCE_KIND_LABELS, getPendingActions } from "@/lib/correspondence";
+import { FEE_CATEGORY_LABELS } from "@/lib/letter";
+import { FeeResponseAction, FEE_RESPONSE_ACTIONS, getOpenFeeEstimate } from "@/lib/fees";
+import FollowUpPanel from "@/components/requests/FollowUpPanel";
+import CorrespondenceList from "@/components/requests/CorrespondenceList";
+import FeeResponsePanel from "@/components/requests/FeeResponsePanel";
+import SaveTemplatePanel from "@/components/requests/SaveTemplatePanel";
+import PortalReceiptDetails from "@/components/requests/PortalReceiptDetails";
+
+interface RequestCardProps {
+  request: FOIARequest;
+  onUpdate: (id: string, update: FOIARequestUpdate) => Promise<void>;
+  onChange: (request: FOIARequest) => void;
+  batchSize?: number;
+  onShowBatch?: (batchId: string) => void;
+}
+
+const PORTAL_OUTCOME_LABELS: Record<PortalOutcome["status"], string> = {
+  submitted: "Submitted",
+  cancelled: "Cancelled",
+  expired: "Timed out",
+  failed: "Failed",
+};
+
+function formatDate(iso?: string): string {
+  if (!iso) return "Not submitted";
+  return new Date(iso).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+}
+
+export default function RequestCard({
+  request,
+  onUpdate,
+  onChange,
+  batchSize,
+  onShowBatch,
+}: RequestCardProps) {
+  const [trackingNumber, setTrackingNumber] = useState(request.trackingNumber || "");
+  const [isSaving, setIsSaving] = useState(false);
+  const [showFollowUp, setShowFollowUp] = useState(false);
+  const [feeAction, setFeeAction] = useState<FeeResponseAction | null>(null);
+  const [showSaveTemplate, setShowSaveTemplate] = useState(false);
+
+  const trackingChanged = trackingNumber.trim() !== (request.trackingNumber || "");
+
+  const deadlines = request.submittedAt
+    ? getDeadlines(request.submittedAt, {
+        tollingPeriods: request.tollingPeriods,
+        determinationDate: request.determinationDate,
+      })
+    : null;
+  const hasDetermination = request.status === "completed" || request.status === "rejected";
+  const overdue = isOverdue(request);
+  const lastFollowUp = request.followUps?.[request.followUps.length - 1];
+  const feeEstimate = getOpenFeeEstimate(request);
+  // The fee estimate has its own response panel below
+  const pendingActions = getPendingActions(request).filter(
+    (c) => c.id !== feeEstimate?.correspondence.id
+  );
+
+  const save = async (update: FOIARequestUpdate) => {
+    setIsSaving(true);
+    try {
+      await onUpdate(request.id, update);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const resolveAction = async (correspondenceId: string) => {
+    setIsSaving(true);
+    try {
+      const response = await fetch(
+        `/api/requests/${request.id}/correspondence/${correspondenceId}`,
+        {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ actionResolved: true }),
+        }
+      );
+      if (response.ok) {
+        onChange(await response.json());
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="rounded-lg border border-gray-600 p-4 space-y-3">
+      <div className="flex items-start justify-between gap-4">
+        <div className="min-w-0">
+          <p className="font-medium text-white">
+            {request.briefDescription || request.rephrasedRequest.substring(0, 80)}
+          </p>
+          <p className="text-sm text-gray-400">{request.agency.name}</p>
+        </div>
+        <div className="flex flex-shrink-0 gap-2">
+          {(pendingActions.length > 0 || feeEstimate) && (
+            <span className="rounded bg-amber-600 px-2 py-0.5 text-xs text-amber-100">
+              Action needed
+            </span>
+          )}
+          {overdue && (
+            <span className="rounded bg-red-600 px-2 py-0.5 text-xs text-red-100">
+              Overdue
+            </span>
+          )}
+          <span className={`rounded px-2 py-0.5 text-xs ${STATUS_STYLES[request.status]}`}>
+            {STATUS_LABELS[request.status]}
+          </span>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm">
+        <div>
+          <span className="text-gray-400">Submitted:</span>{" "}
+          <span className="text-white">{formatDate(request.submittedAt)}</span>
+        </div>
+        <div>
+          <span className="text-gray-400">Channel:</span>{" "}
+          <span className="text-white">
+            {request.channel === "email" ? "Email" : "Portal"}
+          </span>
+        </div>
+        {request.portalOutcome && request.portalOutcome.status !== "submitted" && (
+          <div>
+            <span className="text-gray-400">Last portal attempt:</span>{" "}
+            <span className="text-white">
+              {PORTAL_OUTCOME_LABELS[request.portalOutcome.status]}{" "}
+              {formatDate(request.portalOutcome.at)}
+            </span>
+          </div>
+        )}
+        {request.agencyEmail && (
+          <div>
+            <span className="text-gray-400">Sent to:</span>{" "}
+            <span className="text-white">{request.agencyEmail}</span>
+          </div>
+        )}
+        {request.batchId && batchSize && batchSize > 1 && (
+          <button
+            type="button"
+            onClick={() => onShowBatch?.(request.batchId!)}
+            className="text-blue-400 hover:text-blue-300 underline"
+          >
+            Also sent to {batchSize - 1} other {batchSize === 2 ? "agency" : "agencies"}
+          </button>
+        )}
+        {/* Only requests that actually went out are worth reusing */}
+        {request.status !== "draft" && !showSaveTemplate && (
+          <button
+            type="button"
+            onClick={() => setShowSaveTemplate(true)}
+            className="text-gray-400 hover:text-white underline"
+          >
+            Save as Template
+          </button>
+        )}
+      </div>
+
+      {showSaveTemplate && (
+        <SaveTemplatePanel request={request} onClose={() => setShowSaveTemplate(false)} />
+      )}
+
+      {request.portalReceipt && (
+        <PortalReceiptDetails requestId={request.id} receipt={request.portalReceipt} />
+      )}
+
+      {deadlines && (
+        <div className="grid grid-cols-1 gap-1 rounded-lg bg-gray-700 p-3 text-sm sm:grid-cols-2">
+          <div>
+            <span className="text-gray-400">Response due:</span>{" "}
+            <span className="text-white">
+              {deadlines.responseDue ? formatDeadline(deadlines.responseDue) : "Clock paused"}
+            </span>
+          </div>
+          <div>
+            <span className="text-gray-400">If extended:</span>{" "}
+            <span className="text-white">
+              {deadlines.extendedResponseDue
+                ? formatDeadline(deadlines.extendedResponseDue)
+                : "Clock paused"}
+            </span>
+          </div>
+          {deadlines.appealDue && (
+            <div className="flex items-center justify-between gap-3 sm:col-span-2">
+              <div>
+                <span className="text-gray-400">Appeal by:</span>{" "}
+                <span className="text-white">{formatDeadline(deadlines.appealDue)}</span>
+              </div>
+              {hasDetermination && (
+                <Link
+                  href={`/requests/${request.id}/appeal`}
+                  className="text-blue-400 hover:text-blue-300 underline"
+                >
+                  {request.appeal ? "View Appeal" : "Draft Appeal"}
+                </Link>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {request.correspondence && request.correspondence.length > 0 && (
+        <CorrespondenceList
+          requestId={request.id}
+          correspondence={request.correspondence}
+          onChange={onChange}
+        />
+      )}
+
+      {feeEstimate && !feeAction && (
+        <div
+          className={`space-y-2 rounded-lg border p-3 text-sm ${
+            feeEstimate.overLimit
+              ? "border-red-700 bg-red-900/30 text-red-300"
+              : "border-amber-700 bg-amber-900/30 text-amber-300"
+          }`}
+        >
+          <p>
+            The agency estimates fees of{" "}
+            <span className="font-semibold">${feeEstimate.amount.toFixed(2)}</span>
+            {feeEstimate.overLimit
+              ? `, above your limit of $${feeEstimate.maxFee.toFixed(2)}.`
+              : `, within your limit of $${feeEstimate.maxFee.toFixed(2)}.`}{" "}
+            You requested as: {FEE_CATEGORY_LABELS[request.userDetails.feeCategory]}.
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {FEE_RESPONSE_ACTIONS.map((option) => (
+              <button
+                key={option.id}
+                type="button"
+                onClick={() => setFeeAction(option.id)}
+                className="rounded-lg border border-gray-600 px-3 py-1.5 font-semibold text-gray-200 transition-colors hover:bg-gray-700"
+              >
+                {option.label}
+              </button>
+            ))}
+            <button
+              type="button"
+              onClick={() => resolveAction(feeEstimate.correspondence.id)}
+              disabled={isSaving}
+              className="px-3 py-1.5 text-gray-400 underline hover:text-gray-200 disabled:opacity-50"
+            >
+              Mark Done
+            </button>
+          </div>
+        </div>
+      )}
+
+      {feeEstimate && feeAction && (
+        <FeeResponsePanel
+          request={request}
+          estimate={feeEstimate}
+          initialAction={feeAction}
+          onSent={onChange}
+          onClose={() => setFeeAction(null)}
+        />
+      )}
+
+      {pendingActions.map((message) => (
+        <div
+          key={message.id}
+          className="flex items-center justify-between gap-3 rounded-lg border border-amber-700 bg-amber-900/30 p-3"
+        >
+          <div className="min-w-0 text-sm">
+            <p className="font-medium text-amber-200">
+              {CORRESPONDENCE_KIND_LABELS[message.classification!.kind]}
+            </p>
+            <p className="text-amber-300">
+              {message.classification!.actionSummary || message.classification!.summary}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={() => resolveAction(message.id)}
+            disabled={isSaving}
+            className="flex-shrink-0 rounded-lg border border-amber-600 px-4 py-1.5 text-sm font-semibold text-amber-200 transition-colors hover:bg-amber-900/50 disabled:opacity-50"
+          >
+            Mark Done
+          </button>
+        </div>
+      ))}
+
+      {overdue && !showFollowUp && (
+        <div className="flex items-center justify-between gap-3 rounded-lg border border-red-700 bg-red-900/30 p-3">
+          <p className="text-sm text-red-300">
+            {lastFollowUp
+              ? `Last follow-up sent ${formatDate(lastFollowUp.sentAt)}.`
+              : "The agency missed its response deadline."}
+          </p>
+          <button
+            type="button"
+            onClick={() => setShowFollowUp(true)}
+            className="flex-shrink-0 rounded-lg bg-red-600 px-4 py-1.5 text-sm font-semibold text-white transition-colors hover:bg-red-700"
+          >
+            {lastFollowUp ? "Follow Up Again" : "Send Follow-Up"}
+          </button>
+        </div>
+      )}
+
+      {showFollowUp && (
+        <FollowUpPanel
+          request={request}
+          onSent={onChange}
+          onClose={() => setShowFollowUp(false)}
+        />
+      )}
+
+      <div className="flex flex-wrap items-center gap-3 border-t border-gray-600 pt-3">
+        <label className="flex items-center gap-2 text-sm text-gray-400">
+          Status
+          <select
+            value={request.status}
+            disabled={isSaving}
+            onChange={(e) => save({ status: e.target.value as RequestStatus })}
+            className="rounded-lg border border-gray-600 bg-gray-700 px-3 py-1.5 text-white focus:border-blue-500 focus:outline-none"
+          >
+            {REQUEST_STATUSES.map((status) => (
+              <option key={status} value={status}>
+                {STATUS_LABELS[status]}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        {hasDetermination && (
+          <label className="flex items-center gap-2 text-sm text-gray-400">
+            Determination
+            <input
+              type="date"
+              value={request.determinationDate?.slice(0, 10) || ""}
+              disabled={isSaving}
+              onChange={(e) => save({ determinationDate: e.target.value })}
+              className="rounded-lg border border-gray-600 bg-gray-700 px-3 py-1.5 text-white focus:border-blue-500 focus:outline-none"
+            />
+          </label>
+        )}
+
+        <label className="flex flex-1 items-center gap-2 text-sm text-gray-400">
+          Tracking #
+          <input
+            type="text"
+            value={trackingNumber}
+            disabled={isSaving}
+            onChange={(e) => setTrackingNumber(e.target.value)}
+            placeholder="Agency-assigned number"
+            className="min-w-0 flex-1 rounded-lg border border-gray-600 bg-gray-700 px-3 py-1.5 text-white placeholder-gray-400 focus:border-blue-500 focus:outline-none"
+          />
+        </label>
+        {trackingChanged && (
+          <button
+            type="button"
+            disabled={isSaving}
+            onClick={() => save({ trackingNumber: trackingNumber.trim() })}
+            className="rounded-lg bg-blue-600 px-4 py-1.5 text-sm font-semibold text-white transition-colors hover:bg-blue-700 disabled:opacity-50"
+          >
+            Save
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,189 @@
+"use client";
+
+import { useState } from "react";
+import { FOIARequest, TemplateMode, TemplateVariable, TemplateVariableType } from "@/lib/types";
+import {
+  TEMPLATE_MODES,
+  TEMPLATE_VARIABLE_TYPES,
+  findPlaceholders,
+  labelForKey,
+} from "@/lib/request-templates";
+
+interface SaveTemplatePanelProps {
+  request: FOIARequest;
+  onClose: () => void;
+}
+
+const inputClass =
+  "w-full rounded-lg border border-gray-600 bg-gray-700 px-3 py-2 text-sm text-white placeholder-gray-400 focus:border-blue-500 focus:outline-none";
+
+export default function SaveTemplatePanel({ request, onClose }: SaveTemplatePanelProps) {
+  const [name, setName] = useState("");
+  const [text, setText] = useState(request.rephrasedRequest);
+  const [briefDescription, setBriefDescription] = useState(request.briefDescription);
+  const [mode, setMode] = useState<TemplateMode>("direct");
+  // Labels and types the user set, by placeholder key
+  const [overrides, setOverrides] = useState<Record<string, Partial<TemplateVariable>>>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  const variables: TemplateVariable[] = findPlaceholders(`${text} ${briefDescription}`).map(
+    (key) => ({
+      key,
+      label: overrides[key]?.label ?? labelForKey(key),
+      type: overrides[key]?.type ?? "text",
+    })
+  );
+
+  const updateVariable = (key: string, changes: Partial<TemplateVariable>) => {
+    setOverrides((prev) => ({ ...prev, [key]: { ...prev[key], ...changes } }));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/templates", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name,
+          description: `From a request to ${request.agency.name}`,
+          mode,
+          text,
+          briefDescription,
+          variables,
+        }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to save template");
+      }
+      setSaved(true);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "An error occurred");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (saved) {
+    return (
+      <div className="flex items-center justify-between gap-3 rounded-lg border border-green-700 bg-green-900/30 p-3">
+        <p className="text-sm text-green-300">
+          Saved. Pick &quot;{name.trim()}&quot; from the templates when starting a request.
+        </p>
+        <button
+          type="button"
+          onClick={onClose}
+          className="text-sm text-gray-400 hover:text-white underline"
+        >
+          Close
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3 rounded-lg border border-gray-600 bg-gray-900/50 p-3">
+      <p className="text-sm text-gray-400">
+        Replace the specifics with placeholders such as {"{{vendor}}"} or {"{{period}}"}; each
+        one is asked for when the template is used.
+      </p>
+      <input
+        type="text"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        placeholder="Template name"
+        className={inputClass}
+      />
+      <textarea
+        rows={8}
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        className={inputClass}
+      />
+      <label className="block text-sm text-gray-400">
+        Subject line
+        <input
+          type="text"
+          value={briefDescription}
+          onChange={(e) => setBriefDescription(e.target.value)}
+          className={`mt-1 ${inputClass}`}
+        />
+      </label>
+
+      {variables.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-sm font-medium text-gray-300">Placeholders</p>
+          {variables.map((variable) => (
+            <div key={variable.key} className="flex items-center gap-2">
+              <code className="w-32 flex-shrink-0 truncate text-xs text-gray-400">
+                {`{{${variable.key}}}`}
+              </code>
+              <input
+                type="text"
+                value={variable.label}
+                onChange={(e) => updateVariable(variable.key, { label: e.target.value })}
+                className={inputClass}
+              />
+              <select
+                value={variable.type}
+                onChange={(e) =>
+                  updateVariable(variable.key, { type: e.target.value as TemplateVariableType })
+                }
+                className="rounded-lg border border-gray-600 bg-gray-700 px-3 py-2 text-sm text-white focus:border-blue-500 focus:outline-none"
+              >
+                {TEMPLATE_VARIABLE_TYPES.map((type) => (
+                  <option key={type.id} value={type.id}>
+                    {type.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-1">
+        {TEMPLATE_MODES.map((option) => (
+          <label key={option.id} className="flex items-start gap-2 text-sm text-gray-300">
+            <input
+              type="radio"
+              name={`template-mode-${request.id}`}
+              checked={mode === option.id}
+              onChange={() => setMode(option.id)}
+              className="mt-1"
+            />
+            <span>
+              {option.label}
+              <span className="block text-xs text-gray-400">{option.description}</span>
+            </span>
+          </label>
+        ))}
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      <div className="flex gap-3">
+        <button
+          type="button"
+          onClick={onClose}
+          disabled={isSaving}
+          className="flex-1 rounded-lg border border-gray-600 px-4 py-2 text-sm font-semibold text-gray-300 transition-colors hover:bg-gray-700 disabled:opacity-50"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={isSaving || !name.trim() || !text.trim()}
+          className="flex-1 rounded-lg bg-blue-600 px-4 py-2 text-sm font-semibold text-white transition-colors hover:bg-blue-700 disabled:opacity-50"
+        >
+          {isSaving ? "Saving..." : "Save Template"}
+        </button>
+      </div>
+    </div>
+  );
+}
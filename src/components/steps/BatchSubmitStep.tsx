@@ -0,0 +1,320 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import Link from "next/link";
+import {
+  UserDetails,
+  AgencyComponent,
+  AgencySubmitResult,
+  PortalSessionInfo,
+  SubmitResponse,
+} from "@/lib/types";
+import { getDeadlines, formatDeadline } from "@/lib/deadlines";
+import { composeLetter, getDefaultSections, LetterSection, LetterSections } from "@/lib/letter";
+import { findAgencyEmail, hasAgencyEmail } from "@/lib/agencies";
+import { buildPortalFillBody } from "@/lib/portal-fill";
+import LetterOptions from "@/components/letter/LetterOptions";
+import PortalLiveView from "@/components/portal/PortalLiveView";
+import PortalFillReport from "@/components/portal/PortalFillReport";
+
+interface BatchSubmitStepProps {
+  query: string;
+  rephrasedRequest: string;
+  briefDescription: string;
+  agencies: AgencyComponent[];
+  userDetails: UserDetails;
+  onBack: () => void;
+  onReset: () => void;
+}
+
+type PortalFillStatus = "queued" | "filling" | "live" | "submitted" | "failed";
+
+export default function BatchSubmitStep({
+  query,
+  rephrasedRequest,
+  briefDescription,
+  agencies,
+  userDetails,
+  onBack,
+  onReset,
+}: BatchSubmitStepProps) {
+  const [sections, setSections] = useState<LetterSections>(() =>
+    getDefaultSections(userDetails)
+  );
+  const [expeditedJustification, setExpeditedJustification] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [response, setResponse] = useState<SubmitResponse | null>(null);
+  const [portalStatus, setPortalStatus] = useState<Record<string, PortalFillStatus>>({});
+  const [portalMessages, setPortalMessages] = useState<Record<string, string>>({});
+  const [liveSession, setLiveSession] = useState<PortalSessionInfo | null>(null);
+
+  const deadlines = getDeadlines(new Date());
+  const emailCount = agencies.filter(hasAgencyEmail).length;
+  const portalCount = agencies.length - emailCount;
+
+  // Each agency gets its own copy naming it; preview the first
+  const letter = composeLetter({
+    rephrasedRequest,
+    briefDescription,
+    userDetails,
+    agencyName: agencies[0]?.name,
+    sections,
+    expeditedJustification,
+  });
+
+  const toggleSection = (section: LetterSection) => {
+    setSections((prev) => ({ ...prev, [section]: !prev[section] }));
+  };
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/submit", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          query,
+          rephrasedRequest,
+          briefDescription,
+          agencies,
+          userDetails,
+          sections,
+          expeditedJustification,
+        }),
+      });
+      const result: SubmitResponse = await res.json();
+      if (result.results) {
+        setResponse(result);
+      } else {
+        setError(result.message || "Failed to submit your requests");
+      }
+    } catch (e) {
+      console.error("Batch submit error:", e);
+      setError("Failed to connect to the submission service");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Portal fills wait on the user's CAPTCHA, so only one runs at a time
+  const handlePortalFill = async (result: AgencySubmitResult) => {
+    if (!result.requestId) return;
+    const requestId = result.requestId;
+    setPortalStatus((prev) => ({ ...prev, [requestId]: "filling" }));
+
+    const portalLetter = composeLetter({
+      rephrasedRequest,
+      briefDescription,
+      userDetails,
+      agencyName: result.agency.name,
+      sections,
+      expeditedJustification,
+    });
+
+    try {
+      const res = await fetch("/api/fill-portal", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(
+          buildPortalFillBody({
+            agency: result.agency,
+            query,
+            briefDescription,
+            userDetails,
+            requestDescription: portalLetter.portalDescription,
+            requestId,
+          })
+        ),
+      });
+      const fill = await res.json();
+      if (fill.success) {
+        setLiveSession(fill.session);
+        setPortalStatus((prev) => ({ ...prev, [requestId]: "live" }));
+      } else {
+        setPortalStatus((prev) => ({ ...prev, [requestId]: "failed" }));
+        setPortalMessages((prev) => ({
+          ...prev,
+          [requestId]: fill.message || fill.error || "Could not fill the portal. Try again.",
+        }));
+      }
+    } catch (e) {
+      console.error("Portal fill error:", e);
+      setPortalStatus((prev) => ({ ...prev, [requestId]: "failed" }));
+    }
+  };
+
+  const handlePortalEnded = useCallback((session: PortalSessionInfo) => {
+    setLiveSession(null);
+    if (!session.requestId) return;
+    const requestId = session.requestId;
+    setPortalStatus((prev) => ({
+      ...prev,
+      [requestId]: session.status === "submitted" ? "submitted" : "failed",
+    }));
+    setPortalMessages((prev) => ({ ...prev, [requestId]: session.message }));
+  }, []);
+
+  const isFilling = Object.values(portalStatus).some((s) => s === "filling" || s === "live");
+
+  if (response?.results) {
+    return (
+      <div className="space-y-6">
+        <div>
+          <h2 className="text-2xl font-bold text-white">Requests Sent</h2>
+          <p className="mt-2 text-gray-400">{response.message}</p>
+        </div>
+
+        <ul className="space-y-3">
+          {response.results.map((result) => {
+            const status = result.requestId ? portalStatus[result.requestId] || "queued" : null;
+            return (
+              <li
+                key={result.agency.id}
+                className={`rounded-lg border p-3 ${
+                  result.success ? "border-gray-600" : "border-red-700 bg-red-900/30"
+                }`}
+              >
+                <div className="flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="font-medium text-white">{result.agency.name}</p>
+                    <p className={`text-sm ${result.success ? "text-gray-400" : "text-red-300"}`}>
+                      {result.channel === "portal" && status === "submitted"
+                        ? (result.requestId && portalMessages[result.requestId]) ||
+                          "Submitted through the portal."
+                        : result.channel === "portal" && status === "live"
+                          ? "Portal form filled. Finish it below."
+                          : result.channel === "portal" && status === "failed"
+                            ? (result.requestId && portalMessages[result.requestId]) ||
+                              "Could not fill the portal. Try again."
+                            : result.message}
+                    </p>
+                  </div>
+                  {result.success &&
+                    result.channel === "portal" &&
+                    status !== "live" &&
+                    status !== "submitted" && (
+                    <button
+                      type="button"
+                      onClick={() => handlePortalFill(result)}
+                      disabled={isFilling}
+                      className="flex-shrink-0 rounded-lg bg-green-600 px-4 py-1.5 text-sm font-semibold text-white transition-colors hover:bg-green-700 disabled:opacity-50"
+                    >
+                      {status === "filling" ? "Filling Portal..." : "Auto-Fill Portal"}
+                    </button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+
+        {liveSession && (
+          <div className="space-y-3">
+            {liveSession.report && <PortalFillReport report={liveSession.report} />}
+            <PortalLiveView session={liveSession} onEnded={handlePortalEnded} />
+          </div>
+        )}
+
+        <div className="rounded-lg bg-gray-700 p-4 text-left text-sm">
+          <h3 className="font-medium text-white mb-2">Response deadlines</h3>
+          <p className="text-gray-300">
+            Each agency must respond within 20 business days, by{" "}
+            <span className="text-white">{formatDeadline(deadlines.responseDue!)}</span>.
+          </p>
+        </div>
+
+        <button
+          onClick={onReset}
+          className="w-full rounded-lg bg-blue-600 px-6 py-3 font-semibold text-white transition-colors hover:bg-blue-700"
+        >
+          Submit Another Request
+        </button>
+
+        <Link
+          href={response.batchId ? `/requests?batch=${response.batchId}` : "/requests"}
+          className="block text-center text-sm text-gray-400 hover:text-white underline"
+        >
+          View These Requests
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-white">Review & Submit</h2>
+        <p className="mt-2 text-gray-400">
+          Your request will go to {agencies.length} agencies, each as its own tracked request.
+        </p>
+      </div>
+
+      {error && (
+        <div className="rounded-lg bg-red-900/50 p-4 text-red-300">
+          <p className="font-medium">Error</p>
+          <p className="text-sm">{error}</p>
+        </div>
+      )}
+
+      <div className="space-y-4 rounded-lg border border-gray-600 p-4">
+        <div>
+          <h3 className="text-sm font-medium text-gray-400">Agencies</h3>
+          <ul className="mt-1 space-y-1">
+            {agencies.map((agency) => (
+              <li key={agency.id} className="flex items-center justify-between gap-3 text-sm">
+                <span className="text-white">{agency.name}</span>
+                <span className="text-gray-400">
+                  {findAgencyEmail(agency.id) || "Portal"}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        <div>
+          <h3 className="text-sm font-medium text-gray-400">Your Letter</h3>
+          <p className="text-sm text-gray-400">Subject: {letter.subject}</p>
+          <p className="mt-2 max-h-96 overflow-auto whitespace-pre-wrap rounded-lg bg-gray-700 p-3 text-sm text-gray-200">
+            {letter.text}
+          </p>
+        </div>
+
+        <LetterOptions
+          sections={sections}
+          onToggle={toggleSection}
+          expeditedJustification={expeditedJustification}
+          onExpeditedJustificationChange={setExpeditedJustification}
+        />
+      </div>
+
+      <div className="rounded-lg bg-blue-900/50 p-4 text-blue-300">
+        <p className="font-medium">How Submission Works</p>
+        <p className="text-sm">
+          {emailCount > 0 &&
+            `We'll email the letter to ${emailCount} ${emailCount === 1 ? "agency" : "agencies"}. `}
+          {portalCount > 0 &&
+            `${portalCount} ${portalCount === 1 ? "agency requires" : "agencies require"} portal submission; you'll fill ${portalCount === 1 ? "it" : "them"} one at a time after sending.`}
+        </p>
+      </div>
+
+      <div className="flex gap-3">
+        <button
+          onClick={onBack}
+          disabled={isSubmitting}
+          className="flex-1 rounded-lg border border-gray-600 px-6 py-3 font-semibold text-gray-300 transition-colors hover:bg-gray-700 disabled:opacity-50"
+        >
+          Back
+        </button>
+        <button
+          onClick={handleSubmit}
+          disabled={isSubmitting}
+          className="flex-1 rounded-lg bg-blue-600 px-6 py-3 font-semibold text-white transition-colors hover:bg-blue-700 disabled:opacity-50"
+        >
+          {isSubmitting ? "Sending..." : `Send to ${agencies.length} Agencies`}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,27 +1,54 @@
 "use client";
 
 import { useState } from "react";
+import {
+  ClarifyingAnswer,
+  ClarifyingQuestion,
+  RequestTemplate,
+  TemplateValues,
+} from "@/lib/types";
+import TemplatePicker from "@/components/templates/TemplatePicker";
 
 interface QueryStepProps {
   initialQuery: string;
-  onSubmit: (query: string) => void;
+  clarifyingQuestions: ClarifyingQuestion[] | null;
+  onSubmit: (query: string, answers?: ClarifyingAnswer[]) => void;
+  onUseTemplate?: (template: RequestTemplate, values: TemplateValues) => void;
   isLoading: boolean;
 }
 
 export default function QueryStep({
   initialQuery,
+  clarifyingQuestions,
   onSubmit,
+  onUseTemplate,
   isLoading,
 }: QueryStepProps) {
   const [query, setQuery] = useState(initialQuery);
+  const [answers, setAnswers] = useState<string[]>([]);
+
+  // Questions were asked about the submitted query; editing it starts over
+  const questions = query.trim() === initialQuery ? clarifyingQuestions : null;
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (query.trim()) {
+    if (!query.trim()) return;
+
+    if (questions) {
+      onSubmit(
+        query.trim(),
+        questions.map((q, i) => ({ question: q.question, answer: answers[i] || "" }))
+      );
+    } else {
+      setAnswers([]);
       onSubmit(query.trim());
     }
   };
 
+  const handleSkip = () => {
+    onSubmit(query.trim(), []);
+  };
+
   return (
     <div className="space-y-6">
       <div>
@@ -34,6 +61,8 @@ export default function QueryStep({
         </p>
       </div>
 
+      {onUseTemplate && <TemplatePicker onUse={onUseTemplate} disabled={isLoading} />}
+
       <form onSubmit={handleSubmit} className="space-y-4">
         <div>
           <label htmlFor="query" className="sr-only">
@@ -50,6 +79,48 @@ export default function QueryStep({
           />
         </div>
 
+        {questions && (
+          <div className="space-y-4 rounded-lg border border-blue-700 bg-blue-900/30 p-4">
+            <div>
+              <p className="font-medium text-blue-300">A few questions first</p>
+              <p className="text-sm text-blue-400">
+                Agencies reject requests that don&apos;t reasonably describe the records.
+                Answer what you can.
+              </p>
+            </div>
+            {questions.map((q, i) => (
+              <div key={q.question} className="space-y-1">
+                <label htmlFor={`answer-${i}`} className="block text-sm font-medium text-white">
+                  {q.question}
+                </label>
+                <p className="text-xs text-gray-400">{q.why}</p>
+                <input
+                  id={`answer-${i}`}
+                  type="text"
+                  value={answers[i] || ""}
+                  onChange={(e) =>
+                    setAnswers((prev) => {
+                      const next = [...prev];
+                      next[i] = e.target.value;
+                      return next;
+                    })
+                  }
+                  disabled={isLoading}
+                  className="w-full rounded-lg border border-gray-600 bg-gray-700 px-4 py-2 text-white placeholder-gray-400 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+                />
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={handleSkip}
+              disabled={isLoading}
+              className="text-sm text-gray-400 hover:text-white underline disabled:opacity-50"
+            >
+              Skip and draft anyway
+            </button>
+          </div>
+        )}
+
         <button
           type="submit"
           disabled={!query.trim() || isLoading}
@@ -1,54 +1,56 @@
 "use client";
 
-import { useState, useMemo } from "react";
-import { RephraseResponse, AgencyComponent } from "@/lib/types";
-import agencyEmails from "@/data/agency-emails.json";
+import { useState, useMemo, useEffect } from "react";
+import { RephraseResponse, AgencyComponent, SuggestionConfidence } from "@/lib/types";
+import { allAgencies, getAgencyById, hasAgencyEmail } from "@/lib/agencies";
+import { lintRequest } from "@/lib/request-lint";
 
 interface ReviewStepProps {
   rephraseResponse: RephraseResponse;
-  onContinue: (editedRequest: string, agency: AgencyComponent) => void;
+  // Edits and selection saved with the draft, when returning to this step
+  initialRequest?: string;
+  initialAgencies?: AgencyComponent[];
+  onChange?: (editedRequest: string, agencies: AgencyComponent[]) => void;
+  onContinue: (editedRequest: string, agencies: AgencyComponent[]) => void;
   onBack: () => void;
 }
 
-// Convert our scraped data to AgencyComponent format
-interface ScrapedAgency {
-  name: string;
-  abbreviation: string;
-  parentAgency: string;
-  email: string;
-  website: string;
-  foiaOfficer: string;
-  address: string;
-  phone: string;
-  componentId: string;
-}
-
-// ALL agencies from our scraped data
-const allAgencies: AgencyComponent[] = (agencyEmails as ScrapedAgency[])
-  .map(a => ({
-    id: a.componentId,
-    name: a.name,
-    abbreviation: a.abbreviation,
-    agency: {
-      id: a.componentId,
-      name: a.parentAgency || a.name,
-      abbreviation: a.abbreviation,
-    },
-    emails: a.email ? [a.email] : [],
-  }));
-
 // Separate into agencies with and without email
 const agenciesWithEmail = allAgencies.filter(a => a.emails && a.emails.length > 0 && a.emails[0]);
 const agenciesWithoutEmail = allAgencies.filter(a => !a.emails || a.emails.length === 0 || !a.emails[0]);
 
+const CONFIDENCE_STYLES: Record<SuggestionConfidence, string> = {
+  high: "bg-green-600 text-green-100",
+  medium: "bg-blue-600 text-blue-100",
+  low: "bg-gray-600 text-gray-200",
+};
+
 export default function ReviewStep({
   rephraseResponse,
+  initialRequest,
+  initialAgencies,
+  onChange,
   onContinue,
   onBack,
 }: ReviewStepProps) {
-  const [editedRequest, setEditedRequest] = useState(rephraseResponse.rephrased);
-  const [agencySearch, setAgencySearch] = useState(rephraseResponse.suggestedAgency || "");
-  const [showResults, setShowResults] = useState(true);
+  const [editedRequest, setEditedRequest] = useState(
+    initialRequest || rephraseResponse.rephrased
+  );
+  const findings = useMemo(
+    () => lintRequest(editedRequest, { dateRange: rephraseResponse.dateRange }),
+    [editedRequest, rephraseResponse.dateRange]
+  );
+  // Ranked suggestions from the rephrase step, resolved to our agency data
+  const suggestions = useMemo(
+    () =>
+      (rephraseResponse.suggestedAgencies ?? []).flatMap((suggestion) => {
+        const agency = getAgencyById(suggestion.componentId);
+        return agency ? [{ ...suggestion, agency }] : [];
+      }),
+    [rephraseResponse.suggestedAgencies]
+  );
+  const [agencySearch, setAgencySearch] = useState("");
+  const [showResults, setShowResults] = useState(false);
 
   // Filter agencies based on search - search ALL agencies
   const filteredAgencies = useMemo(() => {
@@ -63,34 +65,46 @@ export default function ReviewStep({
       .slice(0, 20);
   }, [agencySearch]);
 
-  // Local state for selected agency - initialized to first match
-  const [localSelectedAgency, setLocalSelectedAgency] = useState<AgencyComponent | null>(() => {
-    if (!rephraseResponse.suggestedAgency) return allAgencies[0] || null;
-    const search = rephraseResponse.suggestedAgency.toLowerCase();
-    const match = allAgencies.find(a =>
-      a.name.toLowerCase().includes(search) ||
-      a.abbreviation?.toLowerCase().includes(search) ||
-      a.agency.name.toLowerCase().includes(search)
+  // Records often sit with several components, so more than one can be
+  // selected; starts with the top suggestion
+  const [selectedAgencies, setSelectedAgencies] = useState<AgencyComponent[]>(() =>
+    initialAgencies?.length ? initialAgencies : suggestions[0] ? [suggestions[0].agency] : []
+  );
+
+  useEffect(() => {
+    onChange?.(editedRequest, selectedAgencies);
+  }, [editedRequest, selectedAgencies, onChange]);
+  const isSelected = (agency: AgencyComponent) =>
+    selectedAgencies.some((a) => a.id === agency.id);
+
+  const toggleAgency = (agency: AgencyComponent) => {
+    setSelectedAgencies((prev) =>
+      prev.some((a) => a.id === agency.id)
+        ? prev.filter((a) => a.id !== agency.id)
+        : [...prev, agency]
     );
-    return match || allAgencies[0] || null;
-  });
+  };
 
   const handleAgencyClick = (agency: AgencyComponent) => {
-    setLocalSelectedAgency(agency);
+    if (!isSelected(agency)) {
+      toggleAgency(agency);
+    }
     setShowResults(false);
-    setAgencySearch(agency.name);
+    setAgencySearch("");
   };
 
   const handleContinue = () => {
-    if (localSelectedAgency && editedRequest.trim()) {
-      onContinue(editedRequest, localSelectedAgency);
+    if (selectedAgencies.length > 0 && editedRequest.trim()) {
+      onContinue(editedRequest, selectedAgencies);
     }
   };
 
-  const canContinue = localSelectedAgency !== null && editedRequest.trim().length > 0;
+  const canContinue =
+    selectedAgencies.length > 0 &&
+    editedRequest.trim().length > 0 &&
+    !findings.some((f) => f.blocking);
 
-  // Check if selected agency has email
-  const hasEmail = localSelectedAgency?.emails && localSelectedAgency.emails.length > 0 && localSelectedAgency.emails[0];
+  const portalOnlyAgencies = selectedAgencies.filter((a) => !hasAgencyEmail(a));
 
   return (
     <div className="space-y-6">
@@ -108,6 +122,25 @@ export default function ReviewStep({
       <div className="rounded-lg bg-gray-700 p-4">
         <p className="text-sm font-medium text-gray-400">Your original request:</p>
         <p className="mt-1 text-gray-200">&quot;{rephraseResponse.original}&quot;</p>
+        {(rephraseResponse.dateRange || rephraseResponse.recordTypes?.length > 0) && (
+          <div className="mt-3 flex flex-wrap gap-x-6 gap-y-1 text-sm">
+            {rephraseResponse.dateRange && (
+              <div>
+                <span className="text-gray-400">Date range:</span>{" "}
+                <span className="text-gray-200">
+                  {rephraseResponse.dateRange.start || "Any time"} to{" "}
+                  {rephraseResponse.dateRange.end || "present"}
+                </span>
+              </div>
+            )}
+            {rephraseResponse.recordTypes?.length > 0 && (
+              <div>
+                <span className="text-gray-400">Record types:</span>{" "}
+                <span className="text-gray-200">{rephraseResponse.recordTypes.join(", ")}</span>
+              </div>
+            )}
+          </div>
+        )}
       </div>
 
       {/* Rephrased Request */}
@@ -125,15 +158,81 @@ export default function ReviewStep({
           onChange={(e) => setEditedRequest(e.target.value)}
           className="w-full rounded-lg border border-gray-600 bg-gray-700 px-4 py-3 text-white focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/20"
         />
+
+        {/* Request quality checks */}
+        {findings.length > 0 && (
+          <ul className="space-y-2">
+            {findings.map((finding) => (
+              <li
+                key={finding.rule}
+                className={`flex items-start justify-between gap-3 rounded-lg border p-3 ${
+                  finding.blocking
+                    ? "border-red-700 bg-red-900/30"
+                    : "border-yellow-700 bg-yellow-900/30"
+                }`}
+              >
+                <p className={`text-sm ${finding.blocking ? "text-red-300" : "text-yellow-300"}`}>
+                  {finding.message}
+                </p>
+                {finding.fix && (
+                  <button
+                    type="button"
+                    onClick={() => setEditedRequest(finding.fix!.apply(editedRequest))}
+                    className="flex-shrink-0 rounded-lg border border-yellow-600 px-3 py-1 text-sm font-semibold text-yellow-200 transition-colors hover:bg-yellow-900/50"
+                  >
+                    {finding.fix.label}
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
       </div>
 
+      {/* Suggested Agencies */}
+      {suggestions.length > 0 && (
+        <div className="space-y-2">
+          <p className="block text-sm font-medium text-gray-300">
+            Suggested Agencies (select one or more)
+          </p>
+          {suggestions.map(({ agency, rationale, confidence }) => (
+            <button
+              key={agency.id}
+              type="button"
+              onClick={() => toggleAgency(agency)}
+              className={`w-full rounded-lg border p-3 text-left transition-colors ${
+                isSelected(agency)
+                  ? "border-blue-500 bg-blue-900/30"
+                  : "border-gray-600 hover:bg-gray-700"
+              }`}
+            >
+              <div className="flex items-center justify-between gap-3">
+                <span className="font-medium text-white">{agency.name}</span>
+                <div className="flex flex-shrink-0 gap-2">
+                  {!hasAgencyEmail(agency) && (
+                    <span className="text-xs bg-yellow-600 text-yellow-100 px-2 py-0.5 rounded">
+                      Portal only
+                    </span>
+                  )}
+                  <span className={`rounded px-2 py-0.5 text-xs ${CONFIDENCE_STYLES[confidence]}`}>
+                    {confidence} confidence
+                  </span>
+                </div>
+              </div>
+              <p className="text-sm text-gray-400">{agency.agency.name}</p>
+              <p className="mt-1 text-sm text-gray-300">{rationale}</p>
+            </button>
+          ))}
+        </div>
+      )}
+
       {/* Agency Selection */}
       <div className="space-y-2">
         <label
           htmlFor="agencySearch"
           className="block text-sm font-medium text-gray-300"
         >
-          Select Agency ({agenciesWithEmail.length} accept email, {agenciesWithoutEmail.length} require portal)
+          {suggestions.length > 0 ? "Or search all agencies" : "Select Agency"} ({agenciesWithEmail.length} accept email, {agenciesWithoutEmail.length} require portal)
         </label>
         <div className="relative">
           <input
@@ -160,7 +259,7 @@ export default function ReviewStep({
                     type="button"
                     onClick={() => handleAgencyClick(agency)}
                     className={`w-full px-4 py-3 text-left hover:bg-gray-600 ${
-                      localSelectedAgency?.id === agency.id ? "bg-gray-600" : ""
+                      isSelected(agency) ? "bg-gray-600" : ""
                     }`}
                   >
                     <div className="flex items-center justify-between">
@@ -182,46 +281,61 @@ export default function ReviewStep({
           )}
         </div>
 
-        {/* Selected Agency */}
-        {localSelectedAgency && (
-          <div className={`mt-2 rounded-lg border p-3 ${
-            hasEmail
-              ? "border-green-700 bg-green-900/50"
-              : "border-yellow-700 bg-yellow-900/50"
-          }`}>
-            <div className="flex items-center gap-2">
-              <svg
-                className={`h-5 w-5 ${hasEmail ? "text-green-400" : "text-yellow-400"}`}
-                fill="none"
-                stroke="currentColor"
-                viewBox="0 0 24 24"
-              >
-                <path
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
-                  strokeWidth={2}
-                  d={hasEmail ? "M5 13l4 4L19 7" : "M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z"}
-                />
-              </svg>
-              <span className={`font-medium ${hasEmail ? "text-green-300" : "text-yellow-300"}`}>
-                {localSelectedAgency.name}
-              </span>
+        {/* Selected Agencies */}
+        {selectedAgencies.map((agency) => {
+          const hasEmail = hasAgencyEmail(agency);
+          return (
+            <div
+              key={agency.id}
+              className={`mt-2 rounded-lg border p-3 ${
+                hasEmail
+                  ? "border-green-700 bg-green-900/50"
+                  : "border-yellow-700 bg-yellow-900/50"
+              }`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2">
+                  <svg
+                    className={`h-5 w-5 ${hasEmail ? "text-green-400" : "text-yellow-400"}`}
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d={hasEmail ? "M5 13l4 4L19 7" : "M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z"}
+                    />
+                  </svg>
+                  <span className={`font-medium ${hasEmail ? "text-green-300" : "text-yellow-300"}`}>
+                    {agency.name}
+                  </span>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => toggleAgency(agency)}
+                  className="text-sm text-gray-400 hover:text-white underline"
+                >
+                  Remove
+                </button>
+              </div>
+              {hasEmail ? (
+                <p className="mt-1 text-sm text-green-400">
+                  Email: {agency.emails?.[0]}
+                </p>
+              ) : (
+                <p className="mt-1 text-sm text-yellow-400">
+                  This agency requires submission through their FOIA portal
+                </p>
+              )}
             </div>
-            {hasEmail ? (
-              <p className="mt-1 text-sm text-green-400">
-                Email: {localSelectedAgency.emails?.[0]}
-              </p>
-            ) : (
-              <p className="mt-1 text-sm text-yellow-400">
-                This agency requires submission through their FOIA portal
-              </p>
-            )}
-          </div>
-        )}
+          );
+        })}
       </div>
 
       {/* Warning for portal-only agencies */}
-      {localSelectedAgency && !hasEmail && (
+      {portalOnlyAgencies.length > 0 && (
         <div className="rounded-lg bg-yellow-900/30 border border-yellow-700 p-4">
           <div className="flex gap-3">
             <svg className="h-6 w-6 text-yellow-400 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -230,7 +344,8 @@ export default function ReviewStep({
             <div>
               <p className="font-medium text-yellow-300">Portal Submission Required</p>
               <p className="mt-1 text-sm text-yellow-400">
-                {localSelectedAgency.name} does not accept email submissions.
+                {portalOnlyAgencies.map((a) => a.name).join(", ")}{" "}
+                {portalOnlyAgencies.length === 1 ? "does" : "do"} not accept email submissions.
                 We&apos;ll open their FOIA portal where you can paste your request,
                 but you&apos;ll need to complete a CAPTCHA to submit.
               </p>
@@ -254,7 +369,9 @@ export default function ReviewStep({
           disabled={!canContinue}
           className="flex-1 rounded-lg bg-blue-600 px-6 py-3 font-semibold text-white transition-colors hover:bg-blue-700 disabled:cursor-not-allowed disabled:bg-gray-600"
         >
-          Continue
+          {selectedAgencies.length > 1
+            ? `Continue with ${selectedAgencies.length} Agencies`
+            : "Continue"}
         </button>
       </div>
     </div>
@@ -1,9 +1,24 @@
 "use client";
 
-import { useState } from "react";
-import { UserDetails, AgencyComponent } from "@/lib/types";
+import { useCallback, useState } from "react";
+import Link from "next/link";
+import { UserDetails, AgencyComponent, PortalSessionInfo } from "@/lib/types";
+import { getDeadlines, formatDeadline } from "@/lib/deadlines";
+import {
+  composeLetter,
+  getDefaultSections,
+  FEE_CATEGORY_LABELS,
+  LetterSection,
+  LetterSections,
+} from "@/lib/letter";
+import { buildPortalFillBody } from "@/lib/portal-fill";
+import { findAgencyEmail } from "@/lib/agencies";
+import LetterOptions from "@/components/letter/LetterOptions";
+import PortalLiveView from "@/components/portal/PortalLiveView";
+import PortalFillReport from "@/components/portal/PortalFillReport";
 
 interface SubmitStepProps {
+  query: string;
   rephrasedRequest: string;
   briefDescription: string;
   agency: AgencyComponent;
@@ -12,38 +27,8 @@ interface SubmitStepProps {
   onReset: () => void;
 }
 
-// Agency emails data - loaded from our scraped data
-import agencyEmails from "@/data/agency-emails.json";
-
-function findAgencyEmail(agencyId: string, agencyName: string): string | null {
-  // Try to match by component ID first
-  const byId = agencyEmails.find((a: { componentId: string; email: string }) => a.componentId === agencyId);
-  if (byId && byId.email) {
-    return byId.email;
-  }
-
-  // Try to match by name
-  const byName = agencyEmails.find(
-    (a: { name: string; email: string }) => a.name.toLowerCase() === agencyName.toLowerCase()
-  );
-  if (byName && byName.email) {
-    return byName.email;
-  }
-
-  // Try partial name match
-  const partialMatch = agencyEmails.find(
-    (a: { name: string; email: string }) =>
-      a.name.toLowerCase().includes(agencyName.toLowerCase()) ||
-      agencyName.toLowerCase().includes(a.name.toLowerCase())
-  );
-  if (partialMatch && partialMatch.email) {
-    return partialMatch.email;
-  }
-
-  return null;
-}
-
 export default function SubmitStep({
+  query,
   rephrasedRequest,
   briefDescription,
   agency,
@@ -54,57 +39,35 @@ export default function SubmitStep({
   const [submitted, setSubmitted] = useState(false);
   const [isFillingPortal, setIsFillingPortal] = useState(false);
   const [portalError, setPortalError] = useState<string | null>(null);
+  const [portalSession, setPortalSession] = useState<PortalSessionInfo | null>(null);
+  const [confirmationNumber, setConfirmationNumber] = useState<string | null>(null);
 
-  const agencyEmail = findAgencyEmail(agency.id, agency.name);
+  const agencyEmail = findAgencyEmail(agency.id);
 
-  const feeCategoryLabels: Record<string, string> = {
-    commercial: "Commercial use requester",
-    educational: "Educational institution",
-    news_media: "Representative of the news media",
-    other: "All other requesters",
+  const [sections, setSections] = useState<LetterSections>(() =>
+    getDefaultSections(userDetails)
+  );
+  const [expeditedJustification, setExpeditedJustification] = useState("");
+
+  // Deadlines run from today, the day the agency receives the request
+  const deadlines = getDeadlines(new Date());
+
+  // The same letter is previewed here, opened in Gmail and typed into portals
+  const letter = composeLetter({
+    rephrasedRequest,
+    briefDescription,
+    userDetails,
+    sections,
+    expeditedJustification,
+  });
+
+  const toggleSection = (section: LetterSection) => {
+    setSections((prev) => ({ ...prev, [section]: !prev[section] }));
   };
 
-  const emailSubject = `FOIA Request - ${briefDescription}`;
-
-  const emailBody = `Dear FOIA Officer,
-
-Pursuant to the Freedom of Information Act, 5 U.S.C. § 552, I am requesting access to the following records:
-
-${rephrasedRequest}
-
-REQUESTER INFORMATION:
-Name: ${userDetails.firstName} ${userDetails.lastName}
-Email: ${userDetails.email}
-${userDetails.phone ? `Phone: ${userDetails.phone}` : ""}
-Address: ${userDetails.address.line1}${userDetails.address.line2 ? `, ${userDetails.address.line2}` : ""}, ${userDetails.address.city}, ${userDetails.address.state} ${userDetails.address.zip}
-
-FEE CATEGORY:
-${feeCategoryLabels[userDetails.feeCategory]}
-
-FEE LIMITATION:
-I am willing to pay up to $${userDetails.maxFee} for processing fees. If the estimated cost exceeds this amount, please contact me before proceeding.
-
-${
-  userDetails.feeWaiverRequested
-    ? `FEE WAIVER REQUEST:
-I am requesting a waiver of all fees associated with this request.
-Justification: ${userDetails.feeWaiverReason || "Information will contribute significantly to public understanding."}`
-    : ""
-}
-
-PREFERRED RESPONSE FORMAT:
-I would prefer to receive records in electronic format (PDF or other common digital format) sent to my email address if possible.
-
-Thank you for your consideration of this request. I look forward to your response within the statutory timeframe.
-
-Sincerely,
-${userDetails.firstName} ${userDetails.lastName}
-${userDetails.email}
-`;
-
   const handleSubmit = async () => {
     if (!agencyEmail) {
-      // Use Playwright to fill the portal form automatically
+      // Fill the portal form in a headless browser on the server
       setIsFillingPortal(true);
       setPortalError(null);
 
@@ -112,31 +75,23 @@ ${userDetails.email}
         const response = await fetch("/api/fill-portal", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            agencyId: agency.id,
-            firstName: userDetails.firstName,
-            lastName: userDetails.lastName,
-            email: userDetails.email,
-            phone: userDetails.phone,
-            addressLine1: userDetails.address.line1,
-            addressLine2: userDetails.address.line2,
-            city: userDetails.address.city,
-            state: userDetails.address.state,
-            zip: userDetails.address.zip,
-            requestDescription: rephrasedRequest,
-            feeWaiverRequested: userDetails.feeWaiverRequested,
-            feeWaiverReason: userDetails.feeWaiverReason,
-            maxFee: userDetails.maxFee,
-            feeCategory: userDetails.feeCategory,
-          }),
+          body: JSON.stringify(
+            buildPortalFillBody({
+              agency,
+              query,
+              briefDescription,
+              userDetails,
+              requestDescription: letter.portalDescription,
+            })
+          ),
         });
 
         const result = await response.json();
 
         if (result.success) {
-          setSubmitted(true);
+          setPortalSession(result.session);
         } else {
-          setPortalError(result.error || "Failed to open portal");
+          setPortalError(result.message || result.error || "Failed to open portal");
         }
       } catch (e) {
         console.error("Portal fill error:", e);
@@ -148,15 +103,46 @@ ${userDetails.email}
     }
 
     // Create Gmail compose URL
-    const gmailUrl = `https://mail.google.com/mail/?view=cm&to=${encodeURIComponent(agencyEmail)}&su=${encodeURIComponent(emailSubject)}&body=${encodeURIComponent(emailBody)}`;
+    const gmailUrl = `https://mail.google.com/mail/?view=cm&to=${encodeURIComponent(agencyEmail)}&su=${encodeURIComponent(letter.subject)}&body=${encodeURIComponent(letter.text)}`;
 
     // Open Gmail in new tab
     window.open(gmailUrl, '_blank');
 
+    // Record the request so it shows up in the request history
+    try {
+      await fetch("/api/requests", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          query,
+          rephrasedRequest,
+          briefDescription,
+          agency,
+          userDetails,
+          status: "submitted",
+          channel: "email",
+          agencyEmail,
+          submittedAt: new Date().toISOString(),
+        }),
+      });
+    } catch (e) {
+      console.error("Failed to record request:", e);
+    }
+
     // Mark as submitted
     setSubmitted(true);
   };
 
+  const handlePortalEnded = useCallback((session: PortalSessionInfo) => {
+    setPortalSession(null);
+    if (session.status === "submitted") {
+      setConfirmationNumber(session.confirmationNumber || null);
+      setSubmitted(true);
+    } else {
+      setPortalError(session.message);
+    }
+  }, []);
+
   // Format all info for easy copy-paste into portal
   const allFieldsText = `First Name: ${userDetails.firstName}
 Last Name: ${userDetails.lastName}
@@ -193,29 +179,28 @@ ${rephrasedRequest}`.trim();
             </svg>
           </div>
           <div>
-            <h2 className="text-2xl font-bold text-white">Form Pre-Filled!</h2>
+            <h2 className="text-2xl font-bold text-white">Request Submitted!</h2>
             <p className="mt-2 text-gray-400">
-              A browser window has opened with your FOIA request form already filled in.
-              Just complete the CAPTCHA and click Submit!
+              Your FOIA request was submitted through the {agency.name} portal. A screenshot
+              and PDF of the confirmation page are saved with the request.
             </p>
+            {confirmationNumber && (
+              <p className="mt-2 text-white">
+                Confirmation number: <span className="font-mono">{confirmationNumber}</span>
+              </p>
+            )}
           </div>
 
-          <div className="rounded-lg bg-gray-700 p-4 text-left">
-            <h3 className="font-medium text-white mb-2">Next steps:</h3>
-            <ul className="space-y-2 text-sm text-gray-300">
-              <li className="flex items-start gap-2">
-                <span className="text-green-400">1.</span>
-                Find the browser window that opened
-              </li>
-              <li className="flex items-start gap-2">
-                <span className="text-green-400">2.</span>
-                Complete the CAPTCHA verification
-              </li>
-              <li className="flex items-start gap-2">
-                <span className="text-green-400">3.</span>
-                Click the Submit button on the portal
-              </li>
-            </ul>
+          <div className="rounded-lg bg-gray-700 p-4 text-left text-sm">
+            <h3 className="font-medium text-white mb-2">Response deadlines</h3>
+            <p className="text-gray-300">
+              The agency must respond within 20 business days, by{" "}
+              <span className="text-white">{formatDeadline(deadlines.responseDue!)}</span>.
+            </p>
+            <p className="mt-1 text-gray-400">
+              With an unusual-circumstances extension:{" "}
+              {formatDeadline(deadlines.extendedResponseDue!)}
+            </p>
           </div>
 
           <button
@@ -224,6 +209,13 @@ ${rephrasedRequest}`.trim();
           >
             Submit Another Request
           </button>
+
+          <Link
+            href="/requests"
+            className="block text-sm text-gray-400 hover:text-white underline"
+          >
+            View My Requests
+          </Link>
         </div>
       );
     }
@@ -267,8 +259,10 @@ ${rephrasedRequest}`.trim();
             </li>
             <li className="flex items-start gap-2">
               <span className="text-blue-400">3.</span>
-              They have 20 business days to respond (though complex requests may
-              take longer).
+              They have 20 business days to respond, by{" "}
+              {formatDeadline(deadlines.responseDue!)}. If they invoke unusual
+              circumstances, that extends to{" "}
+              {formatDeadline(deadlines.extendedResponseDue!)}.
             </li>
           </ul>
         </div>
@@ -283,6 +277,32 @@ ${rephrasedRequest}`.trim();
         >
           Submit Another Request
         </button>
+
+        <Link
+          href="/requests"
+          className="block text-sm text-gray-400 hover:text-white underline"
+        >
+          View My Requests
+        </Link>
+      </div>
+    );
+  }
+
+  // Portal form filled and waiting for the CAPTCHA
+  if (portalSession) {
+    return (
+      <div className="space-y-6">
+        <div>
+          <h2 className="text-2xl font-bold text-white">Finish on the Portal</h2>
+          <p className="mt-2 text-gray-400">
+            The {agency.name} form is filled in. Click the CAPTCHA below, solve it, then
+            click the portal&apos;s Submit button.
+          </p>
+        </div>
+
+        {portalSession.report && <PortalFillReport report={portalSession.report} />}
+
+        <PortalLiveView session={portalSession} onEnded={handlePortalEnded} />
       </div>
     );
   }
@@ -300,8 +320,8 @@ ${rephrasedRequest}`.trim();
 
         <div className="rounded-lg bg-green-900/30 border border-green-700 p-4">
           <p className="text-green-300">
-            Clicking submit will open a browser with the form already filled in.
-            You just need to complete the CAPTCHA and click Submit!
+            Clicking submit fills in the portal form for you. You just need to complete
+            the CAPTCHA and click Submit!
           </p>
         </div>
 
@@ -327,10 +347,17 @@ ${rephrasedRequest}`.trim();
           </div>
           <div>
             <span className="text-gray-400 text-sm">Request:</span>
-            <p className="text-white text-sm">{rephrasedRequest.substring(0, 150)}...</p>
+            <p className="whitespace-pre-wrap text-white text-sm">{letter.portalDescription}</p>
           </div>
         </div>
 
+        <LetterOptions
+          sections={sections}
+          onToggle={toggleSection}
+          expeditedJustification={expeditedJustification}
+          onExpeditedJustificationChange={setExpeditedJustification}
+        />
+
         {/* Navigation */}
         <div className="flex gap-3">
           <button
@@ -345,7 +372,7 @@ ${rephrasedRequest}`.trim();
             disabled={isFillingPortal}
             className="flex-1 rounded-lg bg-green-600 px-6 py-3 font-semibold text-white transition-colors hover:bg-green-700 disabled:opacity-50"
           >
-            {isFillingPortal ? "Opening Browser..." : "Auto-Fill & Submit"}
+            {isFillingPortal ? "Filling Portal Form..." : "Auto-Fill & Submit"}
           </button>
         </div>
       </div>
@@ -372,10 +399,20 @@ ${rephrasedRequest}`.trim();
         </div>
 
         <div>
-          <h3 className="text-sm font-medium text-gray-400">Your Request</h3>
-          <p className="whitespace-pre-wrap text-gray-200">{rephrasedRequest}</p>
+          <h3 className="text-sm font-medium text-gray-400">Your Letter</h3>
+          <p className="text-sm text-gray-400">Subject: {letter.subject}</p>
+          <p className="mt-2 max-h-96 overflow-auto whitespace-pre-wrap rounded-lg bg-gray-700 p-3 text-sm text-gray-200">
+            {letter.text}
+          </p>
         </div>
 
+        <LetterOptions
+          sections={sections}
+          onToggle={toggleSection}
+          expeditedJustification={expeditedJustification}
+          onExpeditedJustificationChange={setExpeditedJustification}
+        />
+
         <div className="border-t border-gray-600 pt-4">
           <h3 className="text-sm font-medium text-gray-400">Your Information</h3>
           <div className="mt-2 grid grid-cols-2 gap-4 text-sm">
@@ -401,7 +438,7 @@ ${rephrasedRequest}`.trim();
             <div>
               <span className="text-gray-400">Fee Category:</span>{" "}
               <span className="text-white">
-                {feeCategoryLabels[userDetails.feeCategory]}
+                {FEE_CATEGORY_LABELS[userDetails.feeCategory]}
               </span>
             </div>
             <div>
@@ -0,0 +1,201 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { DateRange, RequestTemplate, TemplateValues } from "@/lib/types";
+import { fillTemplate, missingValues } from "@/lib/request-templates";
+
+interface TemplatePickerProps {
+  onUse: (template: RequestTemplate, values: TemplateValues) => void;
+  disabled?: boolean;
+}
+
+const inputClass =
+  "mt-1 w-full rounded-lg border border-gray-600 bg-gray-700 px-3 py-2 text-sm text-white placeholder-gray-400 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/20";
+
+export default function TemplatePicker({ onUse, disabled }: TemplatePickerProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [templates, setTemplates] = useState<RequestTemplate[] | null>(null);
+  const [selected, setSelected] = useState<RequestTemplate | null>(null);
+  const [values, setValues] = useState<TemplateValues>({});
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen || templates) return;
+    const loadTemplates = async () => {
+      try {
+        const response = await fetch("/api/templates");
+        if (!response.ok) {
+          throw new Error("Failed to load templates");
+        }
+        setTemplates(await response.json());
+      } catch (e) {
+        setError(e instanceof Error ? e.message : "An error occurred");
+      }
+    };
+    loadTemplates();
+  }, [isOpen, templates]);
+
+  const selectTemplate = (template: RequestTemplate | null) => {
+    setSelected(template);
+    setValues({});
+    setError(null);
+  };
+
+  const setRange = (key: string, field: keyof DateRange, value: string) => {
+    setValues((prev) => {
+      const range = typeof prev[key] === "object" ? (prev[key] as DateRange) : {};
+      return { ...prev, [key]: { ...range, [field]: value || undefined } };
+    });
+  };
+
+  const handleDelete = async (template: RequestTemplate) => {
+    if (!confirm(`Delete the template "${template.name}"?`)) return;
+    const response = await fetch(`/api/templates/${template.id}`, { method: "DELETE" });
+    if (response.ok) {
+      setTemplates((prev) => prev?.filter((t) => t.id !== template.id) || null);
+    }
+  };
+
+  const handleUse = () => {
+    if (!selected) return;
+    const missing = missingValues(selected, values);
+    if (missing.length > 0) {
+      setError(`Fill in ${missing.join(", ")}`);
+      return;
+    }
+    onUse(selected, values);
+  };
+
+  if (!isOpen) {
+    return (
+      <button
+        type="button"
+        onClick={() => setIsOpen(true)}
+        disabled={disabled}
+        className="text-sm text-blue-400 hover:text-blue-300 underline disabled:opacity-50"
+      >
+        Start from a template
+      </button>
+    );
+  }
+
+  return (
+    <div className="space-y-3 rounded-lg border border-gray-600 p-4">
+      <div className="flex items-center justify-between">
+        <p className="font-medium text-white">
+          {selected ? selected.name : "Request templates"}
+        </p>
+        <button
+          type="button"
+          onClick={() => (selected ? selectTemplate(null) : setIsOpen(false))}
+          className="text-sm text-gray-400 hover:text-white underline"
+        >
+          {selected ? "All templates" : "Close"}
+        </button>
+      </div>
+
+      {!selected && !templates && !error && (
+        <p className="text-sm text-gray-400">Loading templates...</p>
+      )}
+
+      {!selected && templates && (
+        <ul className="space-y-2">
+          {templates.map((template) => (
+            <li key={template.id} className="flex items-start gap-2">
+              <button
+                type="button"
+                onClick={() => selectTemplate(template)}
+                className="flex-1 rounded-lg border border-gray-600 p-3 text-left transition-colors hover:bg-gray-700"
+              >
+                <span className="flex items-center justify-between gap-2">
+                  <span className="text-sm font-medium text-white">{template.name}</span>
+                  <span className="rounded-full bg-gray-600 px-2 py-0.5 text-xs text-gray-200">
+                    {template.mode === "direct" ? "Ready to send" : "Drafted for you"}
+                  </span>
+                </span>
+                {template.description && (
+                  <span className="mt-1 block text-xs text-gray-400">{template.description}</span>
+                )}
+              </button>
+              {!template.builtIn && (
+                <button
+                  type="button"
+                  onClick={() => handleDelete(template)}
+                  className="p-3 text-xs text-red-400 hover:text-red-300 underline"
+                >
+                  Delete
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {selected && (
+        <div className="space-y-3">
+          {selected.variables.map((variable) => {
+            const value = values[variable.key];
+            if (variable.type === "dateRange") {
+              const range = typeof value === "object" ? value : {};
+              return (
+                <div key={variable.key} className="grid grid-cols-2 gap-3">
+                  <label className="block text-sm font-medium text-gray-300">
+                    {variable.label} from
+                    <input
+                      type="date"
+                      value={range.start || ""}
+                      onChange={(e) => setRange(variable.key, "start", e.target.value)}
+                      className={inputClass}
+                    />
+                  </label>
+                  <label className="block text-sm font-medium text-gray-300">
+                    to
+                    <input
+                      type="date"
+                      value={range.end || ""}
+                      onChange={(e) => setRange(variable.key, "end", e.target.value)}
+                      className={inputClass}
+                    />
+                  </label>
+                </div>
+              );
+            }
+            return (
+              <label key={variable.key} className="block text-sm font-medium text-gray-300">
+                {variable.label}
+                <input
+                  type="text"
+                  value={typeof value === "string" ? value : ""}
+                  onChange={(e) => setValues((prev) => ({ ...prev, [variable.key]: e.target.value }))}
+                  placeholder={
+                    variable.type === "keywords"
+                      ? "Separate terms with commas"
+                      : variable.type === "name"
+                        ? "Full name"
+                        : ""
+                  }
+                  className={inputClass}
+                />
+              </label>
+            );
+          })}
+
+          <p className="whitespace-pre-wrap rounded-lg bg-gray-700 p-3 text-sm text-gray-300">
+            {fillTemplate(selected, values).text}
+          </p>
+
+          <button
+            type="button"
+            onClick={handleUse}
+            disabled={disabled}
+            className="w-full rounded-lg bg-blue-600 px-4 py-2 text-sm font-semibold text-white transition-colors hover:bg-blue-700 disabled:opacity-50"
+          >
+            {selected.mode === "direct" ? "Use This Request" : "Draft From Template"}
+          </button>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+"use client";
+
+import Link from "next/link";
+import { useWizard } from "@/components/wizard/WizardContext";
+
+// Header, progress bar and card around whichever step page is showing
+export default function Wizard({ children }: { children: React.ReactNode }) {
+  const { draftId, state, isMissing } = useWizard();
+
+  return (
+    <div className="min-h-screen bg-gray-900">
+      {/* Header */}
+      <header className="border-b border-gray-700 bg-gray-800">
+        <div className="mx-auto max-w-2xl px-4 py-6 flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-white">FOIA Creator</h1>
+            <p className="text-sm text-gray-400">
+              Create and submit FOIA requests in minutes
+            </p>
+          </div>
+          <div className="flex items-center gap-4">
+            <Link
+              href="/requests"
+              className="text-sm text-gray-400 hover:text-white underline"
+            >
+              My Requests
+            </Link>
+            <Link
+              href="/drafts"
+              className="text-sm text-gray-400 hover:text-white underline"
+            >
+              Drafts
+            </Link>
+            <Link
+              href="/bulk"
+              className="text-sm text-gray-400 hover:text-white underline"
+            >
+              Bulk Import
+            </Link>
+            <Link
+              href="/settings"
+              className="text-sm text-gray-400 hover:text-white underline"
+            >
+              Profiles
+            </Link>
+            {(draftId || isMissing) && (
+              <Link
+                href="/"
+                className="text-sm text-gray-400 hover:text-white underline"
+              >
+                New Request
+              </Link>
+            )}
+          </div>
+        </div>
+      </header>
+
+      {/* Progress Bar */}
+      <div className="border-b border-gray-700 bg-gray-800">
+        <div className="mx-auto max-w-2xl px-4 py-4">
+          <div className="flex items-center justify-between">
+            {[
+              { num: 1, label: "Request" },
+              { num: 2, label: "Review" },
+              { num: 3, label: "Details" },
+              { num: 4, label: "Submit" },
+            ].map((s, i) => (
+              <div key={s.num} className="flex items-center">
+                <div
+                  className={`flex h-8 w-8 items-center justify-center rounded-full text-sm font-medium ${
+                    state.step >= s.num
+                      ? "bg-blue-600 text-white"
+                      : "bg-gray-600 text-gray-400"
+                  }`}
+                >
+                  {state.step > s.num ? (
+                    <svg
+                      className="h-4 w-4"
+                      fill="none"
+                      stroke="currentColor"
+                      viewBox="0 0 24 24"
+                    >
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d="M5 13l4 4L19 7"
+                      />
+                    </svg>
+                  ) : (
+                    s.num
+                  )}
+                </div>
+                <span
+                  className={`ml-2 hidden text-sm sm:inline ${
+                    state.step >= s.num ? "text-white" : "text-gray-500"
+                  }`}
+                >
+                  {s.label}
+                </span>
+                {i < 3 && (
+                  <div
+                    className={`mx-4 h-0.5 w-12 sm:w-20 ${
+                      state.step > s.num ? "bg-blue-600" : "bg-gray-600"
+                    }`}
+                  />
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Main Content */}
+      <main className="mx-auto max-w-2xl px-4 py-8">
+        <div className="rounded-xl bg-gray-800 p-6 shadow-sm sm:p-8">
+          {isMissing && (
+            <div className="space-y-4 text-center">
+              <p className="text-gray-300">This draft no longer exists.</p>
+              <Link href="/drafts" className="text-sm text-blue-400 hover:text-blue-300 underline">
+                See your drafts
+              </Link>
+            </div>
+          )}
+
+          {/* Error Display */}
+          {state.error && (
+            <div className="mb-6 rounded-lg bg-red-900/50 p-4 text-red-300">
+              <p className="font-medium">Error</p>
+              <p className="text-sm">{state.error}</p>
+            </div>
+          )}
+
+          {!isMissing && children}
+        </div>
+      </main>
+    </div>
+  );
+}
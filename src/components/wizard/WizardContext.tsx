@@ -0,0 +1,269 @@
+"use client";
+
+// State shared by the wizard's routed step pages. The provider lives in the
+// draft layout, so moving between steps keeps it, and every change is saved
+// to the draft so a reload or a deep link picks up where the user left off.
+import { createContext, useCallback, useContext, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import {
+  WizardState,
+  RephraseResult,
+  AgencyComponent,
+  UserDetails,
+  ClarifyingAnswer,
+  RequestTemplate,
+  TemplateValues,
+} from "@/lib/types";
+import { fillTemplate } from "@/lib/request-templates";
+import {
+  INITIAL_STATE,
+  WizardStep,
+  createDraft,
+  deleteDraft,
+  draftPath,
+  furthestStep,
+  getDraft,
+  saveDraft,
+} from "@/lib/drafts";
+
+interface WizardContextValue {
+  draftId: string | null;
+  state: WizardState;
+  editedRequest: string;
+  isHydrated: boolean;
+  isMissing: boolean;
+  setStep: (step: WizardStep) => void;
+  submitQuery: (query: string, answers?: ClarifyingAnswer[]) => Promise<void>;
+  applyTemplate: (template: RequestTemplate, values: TemplateValues) => void;
+  changeReview: (request: string, agencies: AgencyComponent[]) => void;
+  continueReview: (request: string, agencies: AgencyComponent[]) => void;
+  submitDetails: (details: UserDetails) => void;
+  goBack: () => void;
+  finish: () => void;
+}
+
+const WizardContext = createContext<WizardContextValue | null>(null);
+
+interface WizardProviderProps {
+  // Draft to resume; a new request has none until its query is submitted
+  draftId?: string;
+  // Prefill for a new request, e.g. from /new?query=...&agency=...
+  initialQuery?: string;
+  initialAgencies?: AgencyComponent[];
+  children: React.ReactNode;
+}
+
+export function WizardProvider({
+  draftId: initialDraftId,
+  initialQuery,
+  initialAgencies,
+  children,
+}: WizardProviderProps) {
+  const router = useRouter();
+  const [state, setState] = useState<WizardState>(() => ({
+    ...INITIAL_STATE,
+    query: initialQuery || "",
+    selectedAgencies: initialAgencies || [],
+  }));
+  const [editedRequest, setEditedRequest] = useState("");
+  const [draftId, setDraftId] = useState<string | null>(initialDraftId || null);
+  const [isMissing, setIsMissing] = useState(false);
+  // Drafts live in localStorage, so only a new request is ready on first render
+  const [isHydrated, setIsHydrated] = useState(!initialDraftId);
+
+  // Load the draft on mount
+  useEffect(() => {
+    if (!initialDraftId) return;
+    const draft = getDraft(initialDraftId);
+    if (draft) {
+      setState(draft.state);
+      setEditedRequest(draft.editedRequest);
+    } else {
+      setIsMissing(true);
+    }
+    setIsHydrated(true);
+  }, [initialDraftId]);
+
+  // Save the draft whenever it changes
+  useEffect(() => {
+    if (draftId && isHydrated && !isMissing) {
+      saveDraft(draftId, state, editedRequest);
+    }
+  }, [state, editedRequest, draftId, isHydrated, isMissing]);
+
+  // Save first, then route: a new request's first step lands on the draft's
+  // own pages, which load it from storage
+  const commit = (next: WizardState, request: string) => {
+    let id = draftId;
+    if (id) {
+      saveDraft(id, next, request);
+    } else {
+      id = createDraft(next, request).id;
+      setDraftId(id);
+    }
+    setState(next);
+    setEditedRequest(request);
+
+    const path = draftPath(id, next.step);
+    if (path !== window.location.pathname) {
+      router.push(path);
+    }
+  };
+
+  const setStep = useCallback((step: WizardStep) => {
+    setState((prev) => (prev.step === step ? prev : { ...prev, step }));
+  }, []);
+
+  const submitQuery = async (query: string, answers?: ClarifyingAnswer[]) => {
+    const base: WizardState = { ...state, query, error: null, isLoading: false };
+    setState({ ...base, isLoading: true });
+
+    try {
+      const response = await fetch("/api/rephrase", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ query, answers }),
+      });
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || "Failed to process your request");
+      }
+
+      const data: RephraseResult = await response.json();
+
+      // Too vague to draft: ask the user before guessing
+      if ("clarifyingQuestions" in data) {
+        commit({ ...base, clarifyingQuestions: data.clarifyingQuestions, step: 1 }, editedRequest);
+        return;
+      }
+
+      commit(
+        {
+          ...base,
+          rephraseResponse: data,
+          clarifyingQuestions: null,
+          // Agencies picked before the first draft (from a prefilled link)
+          // stand; a redraft comes with its own suggestions
+          selectedAgencies: state.rephraseResponse ? [] : state.selectedAgencies,
+          step: 2,
+        },
+        data.rephrased
+      );
+    } catch (error) {
+      setState({
+        ...base,
+        error: error instanceof Error ? error.message : "An error occurred",
+      });
+    }
+  };
+
+  // A "seed" template's text goes through drafting like a typed query; a
+  // "direct" one is already the request and goes straight to review
+  const applyTemplate = (template: RequestTemplate, values: TemplateValues) => {
+    const filled = fillTemplate(template, values);
+    if (template.mode === "seed") {
+      submitQuery(filled.text);
+      return;
+    }
+
+    commit(
+      {
+        ...state,
+        query: filled.text,
+        rephraseResponse: {
+          original: filled.text,
+          rephrased: filled.text,
+          suggestedAgencies: [],
+          dateRange: filled.dateRange,
+          recordTypes: template.recordTypes || [],
+          briefDescription: filled.briefDescription,
+        },
+        clarifyingQuestions: null,
+        selectedAgencies: state.rephraseResponse ? [] : state.selectedAgencies,
+        error: null,
+        step: 2,
+      },
+      filled.text
+    );
+  };
+
+  // Saves review edits with the draft before the user continues
+  const changeReview = useCallback((request: string, agencies: AgencyComponent[]) => {
+    setEditedRequest(request);
+    setState((prev) => ({ ...prev, selectedAgencies: agencies }));
+  }, []);
+
+  const continueReview = (request: string, agencies: AgencyComponent[]) => {
+    commit({ ...state, selectedAgencies: agencies, step: 3 }, request);
+  };
+
+  const submitDetails = (details: UserDetails) => {
+    commit({ ...state, userDetails: details, step: 4 }, editedRequest);
+  };
+
+  const goBack = () => {
+    if (draftId && state.step > 1) {
+      router.push(draftPath(draftId, (state.step - 1) as WizardStep));
+    }
+  };
+
+  // A submitted request is tracked on the dashboard, so its draft goes
+  const finish = () => {
+    if (draftId) {
+      deleteDraft(draftId);
+    }
+    router.push("/");
+  };
+
+  return (
+    <WizardContext.Provider
+      value={{
+        draftId,
+        state,
+        editedRequest,
+        isHydrated,
+        isMissing,
+        setStep,
+        submitQuery,
+        applyTemplate,
+        changeReview,
+        continueReview,
+        submitDetails,
+        goBack,
+        finish,
+      }}
+    >
+      {children}
+    </WizardContext.Provider>
+  );
+}
+
+export function useWizard(): WizardContextValue {
+  const wizard = useContext(WizardContext);
+  if (!wizard) {
+    throw new Error("useWizard must be used inside a WizardProvider");
+  }
+  return wizard;
+}
+
+// For a step's page: records it as where the draft was left, or sends the
+// user back to the furthest step the draft is ready for. isReady is false
+// until the page can render.
+export function useWizardStep(step: WizardStep): WizardContextValue & { isReady: boolean } {
+  const wizard = useWizard();
+  const router = useRouter();
+  const { draftId, state, isHydrated, isMissing, setStep } = wizard;
+  const allowed = Math.min(step, furthestStep(state)) as WizardStep;
+
+  useEffect(() => {
+    if (!isHydrated || isMissing) return;
+    if (allowed !== step && draftId) {
+      router.replace(draftPath(draftId, allowed));
+    } else {
+      setStep(step);
+    }
+  }, [allowed, step, draftId, isHydrated, isMissing, router, setStep]);
+
+  return { ...wizard, isReady: isHydrated && !isMissing && allowed === step };
+}
@@ -0,0 +1,101 @@
+"use client";
+
+// One component per routed wizard step, wiring the step UI to the shared
+// wizard state
+import { useEffect } from "react";
+import { useRouter } from "next/navigation";
+import QueryStep from "@/components/steps/QueryStep";
+import ReviewStep from "@/components/steps/ReviewStep";
+import DetailsStep from "@/components/steps/DetailsStep";
+import SubmitStep from "@/components/steps/SubmitStep";
+import BatchSubmitStep from "@/components/steps/BatchSubmitStep";
+import { useWizard, useWizardStep } from "@/components/wizard/WizardContext";
+import { WizardStep, draftPath, furthestStep } from "@/lib/drafts";
+
+export function QueryRoute() {
+  const { state, isReady, submitQuery, applyTemplate } = useWizardStep(1);
+  if (!isReady) return null;
+
+  return (
+    <QueryStep
+      initialQuery={state.query}
+      clarifyingQuestions={state.clarifyingQuestions}
+      onSubmit={submitQuery}
+      onUseTemplate={applyTemplate}
+      isLoading={state.isLoading}
+    />
+  );
+}
+
+export function ReviewRoute() {
+  const { state, editedRequest, isReady, changeReview, continueReview, goBack } =
+    useWizardStep(2);
+  if (!isReady || !state.rephraseResponse) return null;
+
+  return (
+    <ReviewStep
+      rephraseResponse={state.rephraseResponse}
+      initialRequest={editedRequest}
+      initialAgencies={state.selectedAgencies}
+      onChange={changeReview}
+      onContinue={continueReview}
+      onBack={goBack}
+    />
+  );
+}
+
+export function DetailsRoute() {
+  const { state, isReady, submitDetails, goBack } = useWizardStep(3);
+  if (!isReady) return null;
+
+  return (
+    <DetailsStep initialDetails={state.userDetails} onSubmit={submitDetails} onBack={goBack} />
+  );
+}
+
+export function SubmitRoute() {
+  const { state, editedRequest, isReady, goBack, finish } = useWizardStep(4);
+  if (!isReady || !state.userDetails || !state.rephraseResponse) return null;
+
+  // Several agencies each get their own tracked request
+  if (state.selectedAgencies.length > 1) {
+    return (
+      <BatchSubmitStep
+        query={state.query}
+        rephrasedRequest={editedRequest}
+        briefDescription={state.rephraseResponse.briefDescription}
+        agencies={state.selectedAgencies}
+        userDetails={state.userDetails}
+        onBack={goBack}
+        onReset={finish}
+      />
+    );
+  }
+
+  return (
+    <SubmitStep
+      query={state.query}
+      rephrasedRequest={editedRequest}
+      briefDescription={state.rephraseResponse.briefDescription}
+      agency={state.selectedAgencies[0]}
+      userDetails={state.userDetails}
+      onBack={goBack}
+      onReset={finish}
+    />
+  );
+}
+
+// /draft/<id> on its own resumes at the step the draft was left on
+export function ResumeRoute() {
+  const router = useRouter();
+  const { draftId, state, isHydrated, isMissing } = useWizard();
+
+  useEffect(() => {
+    if (draftId && isHydrated && !isMissing) {
+      const step = Math.min(state.step, furthestStep(state)) as WizardStep;
+      router.replace(draftPath(draftId, step));
+    }
+  }, [draftId, state, isHydrated, isMissing, router]);
+
+  return null;
+}
@@ -0,0 +1,65 @@
+// Agency components from our scraped foia.gov data
+import { AgencyComponent } from "@/lib/types";
+import agencyEmails from "@/data/agency-emails.json";
+
+export interface ScrapedAgency {
+  name: string;
+  abbreviation: string;
+  parentAgency: string;
+  email: string;
+  website: string;
+  foiaOfficer: string;
+  address: string;
+  phone: string;
+  componentId: string;
+}
+
+export const allAgencies: AgencyComponent[] = (agencyEmails as ScrapedAgency[]).map((a) => ({
+  id: a.componentId,
+  name: a.name,
+  abbreviation: a.abbreviation,
+  agency: {
+    id: a.componentId,
+    name: a.parentAgency || a.name,
+    abbreviation: a.abbreviation,
+  },
+  emails: a.email ? [a.email] : [],
+}));
+
+export function hasAgencyEmail(agency: AgencyComponent): boolean {
+  return findAgencyEmail(agency.id) !== null;
+}
+
+export function getAgencyById(componentId: string): AgencyComponent | null {
+  return allAgencies.find((a) => a.id === componentId) || null;
+}
+
+function normalize(value: string): string {
+  return value.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+// Match a component named by the model back to our data: exact name within
+// the parent agency first, then exact name or abbreviation anywhere
+export function resolveAgency(name: string, parentAgency?: string): AgencyComponent | null {
+  const wanted = normalize(name);
+  const parent = parentAgency ? normalize(parentAgency) : null;
+  const byName = allAgencies.filter((a) => normalize(a.name) === wanted);
+
+  return (
+    (parent && byName.find((a) => normalize(a.agency.name) === parent)) ||
+    byName[0] ||
+    allAgencies.find(
+      (a) =>
+        normalize(a.abbreviation || "") === wanted &&
+        (!parent || normalize(a.agency.name) === parent)
+    ) ||
+    null
+  );
+}
+
+// FOIA email for a component, by id only. Components without one on file go
+// through the portal rather than to an agency with a similar name.
+export function findAgencyEmail(agencyId: string): string | null {
+  const match = (agencyEmails as ScrapedAgency[]).find((a) => a.componentId === agencyId);
+  return match?.email || null;
+}
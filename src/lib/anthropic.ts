@@ -0,0 +1,11 @@
+import Anthropic from "@anthropic-ai/sdk";
+
+export const ANTHROPIC_MODEL = "claude-sonnet-4-20250514";
+
+export function getAnthropicClient() {
+  const apiKey = process.env.ANTHROPIC_API_KEY;
+  if (!apiKey) {
+    throw new Error("ANTHROPIC_API_KEY is not configured");
+  }
+  return new Anthropic({ apiKey });
+}
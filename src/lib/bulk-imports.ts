@@ -0,0 +1,56 @@
+// Server-side progress of bulk CSV imports, so the page can poll while the
+// rows are filed in the background
+import { randomUUID } from "crypto";
+import { BulkImport, BulkRowResult } from "@/lib/types";
+import { readCollection, writeCollection } from "@/lib/store";
+
+const COLLECTION = "bulk-imports";
+
+export function createBulkImport(total: number): BulkImport {
+  const now = new Date().toISOString();
+  const bulkImport: BulkImport = {
+    id: randomUUID(),
+    status: "running",
+    total,
+    results: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  const imports = readCollection<BulkImport>(COLLECTION);
+  imports.push(bulkImport);
+  writeCollection(COLLECTION, imports);
+
+  return bulkImport;
+}
+
+export function getBulkImport(id: string): BulkImport | null {
+  return readCollection<BulkImport>(COLLECTION).find((i) => i.id === id) || null;
+}
+
+function mutateBulkImport(
+  id: string,
+  mutate: (existing: BulkImport) => BulkImport
+): BulkImport | null {
+  const imports = readCollection<BulkImport>(COLLECTION);
+  const index = imports.findIndex((i) => i.id === id);
+  if (index === -1) {
+    return null;
+  }
+
+  imports[index] = { ...mutate(imports[index]), id, updatedAt: new Date().toISOString() };
+  writeCollection(COLLECTION, imports);
+
+  return imports[index];
+}
+
+export function addBulkImportResult(id: string, result: BulkRowResult): BulkImport | null {
+  return mutateBulkImport(id, (existing) => ({
+    ...existing,
+    results: [...existing.results, result],
+  }));
+}
+
+export function finishBulkImport(id: string): BulkImport | null {
+  return mutateBulkImport(id, (existing) => ({ ...existing, status: "done" }));
+}
@@ -0,0 +1,112 @@
+// Bulk filing from a CSV: one row per request, each naming its target agency
+// and carrying either an informal query or a request that is already written
+import { AgencyComponent, BulkRowResult } from "@/lib/types";
+import { getAgencyById, resolveAgency } from "@/lib/agencies";
+import { parseCsv, stringifyCsv } from "@/lib/csv";
+
+export const MAX_BULK_ROWS = 100;
+
+export interface BulkRow {
+  row: number;
+  agency: string;
+  query: string;
+  request: string;
+  briefDescription: string;
+}
+
+export interface BulkOptions {
+  rephrase: boolean;
+}
+
+// Header names are matched ignoring case, spaces and punctuation
+const COLUMNS: Record<string, keyof Omit<BulkRow, "row">> = {
+  agency: "agency",
+  query: "query",
+  request: "request",
+  briefdescription: "briefDescription",
+  subject: "briefDescription",
+};
+
+export const BULK_TEMPLATE = stringifyCsv([
+  ["agency", "query", "request", "briefDescription"],
+  ["FBI", "Records about surveillance of environmental groups since 2020", "", ""],
+]);
+
+export function parseBulkCsv(text: string): { rows: BulkRow[]; errors: string[] } {
+  const [header, ...lines] = parseCsv(text);
+  if (!header) {
+    return { rows: [], errors: ["The file is empty"] };
+  }
+
+  const columns = header.map((name) => COLUMNS[name.toLowerCase().replace(/[^a-z]/g, "")]);
+  const errors: string[] = [];
+  if (!columns.includes("agency")) {
+    errors.push('Missing an "agency" column');
+  }
+  if (!columns.includes("query") && !columns.includes("request")) {
+    errors.push('Needs a "query" or "request" column');
+  }
+  if (lines.length === 0) {
+    errors.push("The file has no rows");
+  }
+  if (lines.length > MAX_BULK_ROWS) {
+    errors.push(`At most ${MAX_BULK_ROWS} rows can be filed at once`);
+  }
+  if (errors.length > 0) {
+    return { rows: [], errors };
+  }
+
+  const rows = lines.map((values, i) => {
+    const row: BulkRow = { row: i + 2, agency: "", query: "", request: "", briefDescription: "" };
+    columns.forEach((column, j) => {
+      if (column && values[j]) row[column] = values[j].trim();
+    });
+    return row;
+  });
+  return { rows, errors };
+}
+
+// The agency column takes a component id, name or abbreviation
+export function findBulkAgency(value: string): AgencyComponent | null {
+  return value ? getAgencyById(value) || resolveAgency(value) : null;
+}
+
+export function validateBulkRow(row: BulkRow, options: BulkOptions): string[] {
+  const errors: string[] = [];
+  if (!row.query && !row.request) {
+    errors.push("No query or request");
+  }
+  if (row.agency && !findBulkAgency(row.agency)) {
+    errors.push(`Unknown agency "${row.agency}"`);
+  }
+  // Without an agency, only a rephrase can suggest one
+  if (!row.agency && (!options.rephrase || row.request)) {
+    errors.push("No agency");
+  }
+  return errors;
+}
+
+// Subject line for rows that don't give one: the opening words of the request
+export function defaultBriefDescription(text: string): string {
+  const words = text.replace(/\s+/g, " ").trim().split(" ");
+  return words.length > 8 ? `${words.slice(0, 8).join(" ")}...` : words.join(" ");
+}
+
+export function bulkReportCsv(rows: BulkRow[], results: BulkRowResult[]): string {
+  return stringifyCsv([
+    ["row", "agency", "query", "status", "message", "requestId", "emailSentTo", "warnings"],
+    ...rows.map((row) => {
+      const result = results.find((r) => r.row === row.row);
+      return [
+        String(row.row),
+        result?.agency?.name || row.agency,
+        row.query || row.request,
+        result?.status || "",
+        result?.message || "",
+        result?.requestId || "",
+        result?.emailSentTo || "",
+        (result?.warnings || []).join(" | "),
+      ];
+    }),
+  ]);
+}
@@ -0,0 +1,152 @@
+// AI classification of agency correspondence
+import { Correspondence, CorrespondenceClassification, FOIARequest, FOIARequestUpdate } from "@/lib/types";
+import { getAnthropicClient, ANTHROPIC_MODEL } from "@/lib/anthropic";
+import { CORRESPONDENCE_KINDS, STATUS_FOR_KIND } from "@/lib/correspondence";
+import { findCitedExemptions } from "@/lib/exemptions";
+import { isStatusAdvance } from "@/lib/request-status";
+import { getRequest, updateClassification } from "@/lib/requests";
+
+const SYSTEM_PROMPT = `You read letters and emails that federal agencies send to Freedom of Information Act requesters and classify them for a request-tracking system.
+
+Pick the single kind that best describes the letter:
+- acknowledgement: confirms receipt of the request and nothing more
+- tracking_number: assigns a tracking, control or request number
+- fee_estimate: states estimated fees or asks the requester to commit to pay
+- clarification_request: asks the requester to clarify, narrow or confirm the request
+- interim_release: releases some records while processing continues
+- final_determination: closes the request, releasing records or finding none
+- denial: withholds the records in full or refuses to process the request
+
+Set actionNeeded to true only when the requester must reply or act, such as agreeing to fees, answering a clarification, or deciding whether to appeal. Extract only values that appear in the letter.`;
+
+const CLASSIFY_TOOL = {
+  name: "record_classification",
+  description: "Record the classification of an agency FOIA letter",
+  input_schema: {
+    type: "object" as const,
+    properties: {
+      kind: { type: "string", enum: CORRESPONDENCE_KINDS },
+      summary: { type: "string", description: "One-sentence summary of the letter" },
+      trackingNumber: {
+        type: "string",
+        description: "Tracking or request number the agency assigned, if stated",
+      },
+      estimatedFee: {
+        type: "number",
+        description: "Estimated fee in US dollars, if stated",
+      },
+      exemptions: {
+        type: "array",
+        items: { type: "string" },
+        description: 'FOIA exemptions cited, e.g. "(b)(6)" or "(b)(7)(C)"',
+      },
+      actionNeeded: { type: "boolean" },
+      actionSummary: {
+        type: "string",
+        description: "What the requester needs to do, if anything",
+      },
+    },
+    required: ["kind", "summary", "actionNeeded"],
+  },
+};
+
+interface ClassificationInput {
+  kind?: unknown;
+  summary?: unknown;
+  trackingNumber?: unknown;
+  estimatedFee?: unknown;
+  exemptions?: unknown;
+  actionNeeded?: unknown;
+  actionSummary?: unknown;
+}
+
+function toClassification(input: ClassificationInput): CorrespondenceClassification {
+  const kind = CORRESPONDENCE_KINDS.find((k) => k === input.kind);
+  if (!kind || typeof input.summary !== "string") {
+    throw new Error("Invalid classification from model");
+  }
+
+  const exemptions = Array.isArray(input.exemptions)
+    ? findCitedExemptions(input.exemptions.join(" "))
+    : [];
+
+  return {
+    kind,
+    summary: input.summary,
+    trackingNumber:
+      typeof input.trackingNumber === "string" && input.trackingNumber.trim()
+        ? input.trackingNumber.trim()
+        : undefined,
+    estimatedFee: typeof input.estimatedFee === "number" ? input.estimatedFee : undefined,
+    exemptions: exemptions.length > 0 ? exemptions : undefined,
+    actionNeeded: input.actionNeeded === true,
+    actionSummary: typeof input.actionSummary === "string" ? input.actionSummary : undefined,
+    classifiedAt: new Date().toISOString(),
+  };
+}
+
+export async function classifyCorrespondence(
+  request: FOIARequest,
+  correspondence: Correspondence
+): Promise<CorrespondenceClassification> {
+  const anthropic = getAnthropicClient();
+  const message = await anthropic.messages.create({
+    model: ANTHROPIC_MODEL,
+    max_tokens: 1024,
+    system: SYSTEM_PROMPT,
+    tools: [CLASSIFY_TOOL],
+    tool_choice: { type: "tool", name: CLASSIFY_TOOL.name },
+    messages: [
+      {
+        role: "user",
+        content: `The requester asked ${request.agency.name} for:
+${request.rephrasedRequest}
+
+The agency sent this message:
+From: ${correspondence.from}
+Subject: ${correspondence.subject}
+Attachments: ${correspondence.attachments.map((a) => a.filename).join(", ") || "none"}
+
+${correspondence.text}`,
+      },
+    ],
+  });
+
+  const toolUse = message.content.find((block) => block.type === "tool_use");
+  if (!toolUse || toolUse.type !== "tool_use") {
+    throw new Error("Unexpected response type");
+  }
+
+  return toClassification(toolUse.input as ClassificationInput);
+}
+
+// Classify a stored reply and apply the status and tracking number it implies
+export async function classifyAndApply(
+  requestId: string,
+  correspondenceId: string
+): Promise<FOIARequest | null> {
+  const request = getRequest(requestId);
+  const correspondence = request?.correspondence?.find((c) => c.id === correspondenceId);
+  if (!request || !correspondence) {
+    return null;
+  }
+
+  const classification = await classifyCorrespondence(request, correspondence);
+
+  const update: FOIARequestUpdate = {};
+  const status = STATUS_FOR_KIND[classification.kind];
+  if (isStatusAdvance(request.status, status)) {
+    update.status = status;
+  }
+  if (classification.trackingNumber && !request.trackingNumber) {
+    update.trackingNumber = classification.trackingNumber;
+  }
+  if (
+    (classification.kind === "final_determination" || classification.kind === "denial") &&
+    !request.determinationDate
+  ) {
+    update.determinationDate = correspondence.receivedAt;
+  }
+
+  return updateClassification(requestId, correspondenceId, classification, update);
+}
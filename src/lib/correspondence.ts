@@ -0,0 +1,43 @@
+import { Correspondence, CorrespondenceKind, FOIARequest, RequestStatus } from "@/lib/types";
+
+export const CORRESPONDENCE_KINDS: CorrespondenceKind[] = [
+  "acknowledgement",
+  "tracking_number",
+  "fee_estimate",
+  "clarification_request",
+  "interim_release",
+  "final_determination",
+  "denial",
+];
+
+export const CORRESPONDENCE_KIND_LABELS: Record<CorrespondenceKind, string> = {
+  acknowledgement: "Acknowledgement",
+  tracking_number: "Tracking number assigned",
+  fee_estimate: "Fee estimate",
+  clarification_request: "Clarification request",
+  interim_release: "Interim release",
+  final_determination: "Final determination",
+  denial: "Denial",
+};
+
+// Request status implied by each kind of agency letter
+export const STATUS_FOR_KIND: Record<CorrespondenceKind, RequestStatus> = {
+  acknowledgement: "acknowledged",
+  tracking_number: "acknowledged",
+  fee_estimate: "pending",
+  clarification_request: "pending",
+  interim_release: "pending",
+  final_determination: "completed",
+  denial: "rejected",
+};
+
+// Classified agency letters still waiting on the requester, newest first
+export function getPendingActions(request: FOIARequest): Correspondence[] {
+  return (request.correspondence || [])
+    .filter((c) => c.classification?.actionNeeded && !c.classification.actionResolvedAt)
+    .sort((a, b) => b.receivedAt.localeCompare(a.receivedAt));
+}
+
+export function needsAction(request: FOIARequest): boolean {
+  return getPendingActions(request).length > 0;
+}
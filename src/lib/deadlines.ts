@@ -0,0 +1,166 @@
+// Statutory FOIA deadlines (5 U.S.C. § 552(a)(6))
+//
+// All dates are handled as calendar days at UTC midnight so the same request
+// yields the same deadlines on the server and in the browser.
+
+import { TollingPeriod } from "@/lib/types";
+
+export const RESPONSE_BUSINESS_DAYS = 20;
+export const UNUSUAL_CIRCUMSTANCES_BUSINESS_DAYS = 10;
+export const APPEAL_WINDOW_DAYS = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RequestDeadlines {
+  receivedOn: Date;
+  // null while the clock is tolled with no end date yet
+  responseDue: Date | null;
+  extendedResponseDue: Date | null;
+  appealDue: Date | null;
+}
+
+// Truncate a timestamp to its calendar day
+export function toDay(value: string | Date): Date {
+  const date = new Date(value);
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+function dayKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+// nth occurrence of a weekday in a month (n = -1 for the last one)
+function nthWeekday(year: number, month: number, weekday: number, n: number): Date {
+  if (n === -1) {
+    const last = new Date(Date.UTC(year, month + 1, 0));
+    return addDays(last, -((last.getUTCDay() - weekday + 7) % 7));
+  }
+  const first = new Date(Date.UTC(year, month, 1));
+  return addDays(first, ((weekday - first.getUTCDay() + 7) % 7) + (n - 1) * 7);
+}
+
+// Holidays on a Saturday are observed the Friday before, on a Sunday the Monday after
+function observed(date: Date): Date {
+  const day = date.getUTCDay();
+  if (day === 6) return addDays(date, -1);
+  if (day === 0) return addDays(date, 1);
+  return date;
+}
+
+// Observed federal holidays under 5 U.S.C. § 6103 for a given year
+export function federalHolidays(year: number): Date[] {
+  const fixed = (month: number, day: number) => observed(new Date(Date.UTC(year, month, day)));
+
+  const holidays = [
+    fixed(0, 1), // New Year's Day
+    nthWeekday(year, 0, 1, 3), // Birthday of Martin Luther King, Jr.
+    nthWeekday(year, 1, 1, 3), // Washington's Birthday
+    nthWeekday(year, 4, 1, -1), // Memorial Day
+    fixed(6, 4), // Independence Day
+    nthWeekday(year, 8, 1, 1), // Labor Day
+    nthWeekday(year, 9, 1, 2), // Columbus Day
+    fixed(10, 11), // Veterans Day
+    nthWeekday(year, 10, 4, 4), // Thanksgiving Day
+    fixed(11, 25), // Christmas Day
+  ];
+
+  if (year >= 2021) {
+    holidays.push(fixed(5, 19)); // Juneteenth National Independence Day
+  }
+
+  return holidays.sort((a, b) => a.getTime() - b.getTime());
+}
+
+const holidayCache = new Map<number, Set<string>>();
+
+export function isFederalHoliday(date: Date): boolean {
+  const year = date.getUTCFullYear();
+  // New Year's Day on a Saturday is observed on December 31 of the prior year
+  for (const y of [year, year + 1]) {
+    if (!holidayCache.has(y)) {
+      holidayCache.set(y, new Set(federalHolidays(y).map(dayKey)));
+    }
+    if (holidayCache.get(y)!.has(dayKey(date))) {
+      return true;
+    }
+  }
+  return false;
+}
+
+export function isBusinessDay(date: Date): boolean {
+  const day = date.getUTCDay();
+  return day !== 0 && day !== 6 && !isFederalHoliday(date);
+}
+
+function isTolled(date: Date, tolling: TollingPeriod[]): boolean {
+  return tolling.some(
+    (period) =>
+      date >= toDay(period.start) && (!period.end || date <= toDay(period.end))
+  );
+}
+
+// Count business days after `start`, skipping weekends, federal holidays and
+// any days the clock was tolled. Returns null if an open tolling period means
+// the deadline cannot be known yet.
+export function addBusinessDays(
+  start: Date,
+  days: number,
+  tolling: TollingPeriod[] = []
+): Date | null {
+  let date = toDay(start);
+  let counted = 0;
+
+  while (counted < days) {
+    date = addDays(date, 1);
+    if (isTolled(date, tolling)) {
+      if (tolling.some((p) => !p.end && date >= toDay(p.start))) {
+        return null;
+      }
+      continue;
+    }
+    if (isBusinessDay(date)) {
+      counted++;
+    }
+  }
+
+  return date;
+}
+
+export function getAppealDeadline(determinationDate: string | Date): Date {
+  return addDays(toDay(determinationDate), APPEAL_WINDOW_DAYS);
+}
+
+export function getDeadlines(
+  submittedAt: string | Date,
+  options: { tollingPeriods?: TollingPeriod[]; determinationDate?: string } = {}
+): RequestDeadlines {
+  const receivedOn = toDay(submittedAt);
+  const tolling = options.tollingPeriods || [];
+
+  return {
+    receivedOn,
+    responseDue: addBusinessDays(receivedOn, RESPONSE_BUSINESS_DAYS, tolling),
+    extendedResponseDue: addBusinessDays(
+      receivedOn,
+      RESPONSE_BUSINESS_DAYS + UNUSUAL_CIRCUMSTANCES_BUSINESS_DAYS,
+      tolling
+    ),
+    appealDue: options.determinationDate
+      ? getAppealDeadline(options.determinationDate)
+      : null,
+  };
+}
+
+export function formatDeadline(date: Date): string {
+  return date.toLocaleDateString("en-US", {
+    weekday: "long",
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+}
@@ -0,0 +1,126 @@
+// Send a request to one agency without the wizard: email where the agency
+// takes it, otherwise a draft queued for a portal fill
+import { AgencyComponent, AgencySubmitResult, UserDetails } from "@/lib/types";
+import { createRequest } from "@/lib/requests";
+import { composeLetter, LetterSections } from "@/lib/letter";
+import { findAgencyEmail } from "@/lib/agencies";
+import { EmailAddress, EmailTransport } from "@/lib/email";
+
+export interface DispatchInput {
+  query?: string;
+  rephrasedRequest: string;
+  briefDescription: string;
+  agency: AgencyComponent;
+  userDetails: UserDetails;
+  sections?: Partial<LetterSections>;
+  expeditedJustification?: string;
+  batchId?: string;
+  importId?: string;
+}
+
+export async function dispatchRequest(
+  input: DispatchInput,
+  transport: EmailTransport | null,
+  sender: EmailAddress | null
+): Promise<AgencySubmitResult> {
+  const { agency, userDetails } = input;
+  const agencyEmail = findAgencyEmail(agency.id);
+  const stored = {
+    query: input.query || "",
+    rephrasedRequest: input.rephrasedRequest,
+    briefDescription: input.briefDescription,
+    agency,
+    userDetails,
+    batchId: input.batchId,
+    importId: input.importId,
+  };
+
+  if (!agencyEmail) {
+    // Portal fills need the user at the browser, so they run one at a time
+    // later; keep a draft until then
+    try {
+      const queued = createRequest({ ...stored, status: "draft", channel: "portal" });
+      return {
+        agency,
+        channel: "portal",
+        success: true,
+        message: `Queued for portal submission to ${agency.name}.`,
+        requestId: queued.id,
+      };
+    } catch (storeError) {
+      console.error("Failed to queue portal request:", storeError);
+      return {
+        agency,
+        channel: "portal",
+        success: false,
+        message: `Could not queue ${agency.name} for portal submission.`,
+      };
+    }
+  }
+
+  if (!transport || !sender) {
+    return {
+      agency,
+      channel: "email",
+      success: false,
+      message: `Email service not configured, so ${agency.name} was not sent the request.`,
+    };
+  }
+
+  const letter = composeLetter({
+    rephrasedRequest: input.rephrasedRequest,
+    briefDescription: input.briefDescription,
+    userDetails,
+    agencyName: agency.name,
+    sections: input.sections,
+    expeditedJustification: input.expeditedJustification,
+  });
+
+  try {
+    await transport.send({
+      from: sender,
+      to: agencyEmail,
+      replyTo: {
+        email: userDetails.email,
+        name: `${userDetails.firstName} ${userDetails.lastName}`,
+      },
+      subject: letter.subject,
+      text: letter.text,
+      html: letter.html,
+    });
+  } catch (sendError: unknown) {
+    console.error(`Email send error for ${agency.name}:`, sendError);
+    const errorMessage =
+      sendError instanceof Error ? sendError.message : "Unknown email error";
+    return {
+      agency,
+      channel: "email",
+      success: false,
+      message: `Failed to send email to ${agency.name}: ${errorMessage}`,
+    };
+  }
+
+  // The email already went out, so a store failure must not turn this into
+  // an error for the user
+  let requestId: string | undefined;
+  try {
+    requestId = createRequest({
+      ...stored,
+      status: "submitted",
+      channel: "email",
+      agencyEmail,
+      submittedAt: new Date().toISOString(),
+    }).id;
+  } catch (storeError) {
+    console.error("Failed to record request:", storeError);
+  }
+
+  return {
+    agency,
+    channel: "email",
+    success: true,
+    message: `Emailed to ${agency.name}.`,
+    requestId,
+    emailSentTo: agencyEmail,
+  };
+}
@@ -0,0 +1,160 @@
+// Wizard drafts, kept in localStorage so a second request doesn't overwrite
+// the first. Each draft is addressable as /draft/<id>/<step>.
+import { WizardDraft, WizardState } from "@/lib/types";
+
+const STORAGE_KEY = "foia-creator-drafts";
+// Where the wizard kept its single draft before there could be several
+const LEGACY_STORAGE_KEY = "foia-creator-state";
+
+export const INITIAL_STATE: WizardState = {
+  step: 1,
+  query: "",
+  rephraseResponse: null,
+  clarifyingQuestions: null,
+  selectedAgencies: [],
+  userDetails: null,
+  isLoading: false,
+  error: null,
+};
+
+export type WizardStep = WizardState["step"];
+
+export const STEP_SLUGS: Record<WizardStep, string> = {
+  1: "query",
+  2: "review",
+  3: "details",
+  4: "submit",
+};
+
+export const STEP_LABELS: Record<WizardStep, string> = {
+  1: "Request",
+  2: "Review",
+  3: "Details",
+  4: "Submit",
+};
+
+export function draftPath(id: string, step: WizardStep): string {
+  return `/draft/${id}/${STEP_SLUGS[step]}`;
+}
+
+// Furthest step the draft has what it needs to show
+export function furthestStep(state: WizardState): WizardStep {
+  if (!state.rephraseResponse) return 1;
+  if (state.selectedAgencies.length === 0) return 2;
+  if (!state.userDetails) return 3;
+  return 4;
+}
+
+// Loading and errors belong to the page that was open, never to the draft
+function restoreState(saved: Partial<WizardState> & { selectedAgency?: unknown }): WizardState {
+  return {
+    ...INITIAL_STATE,
+    ...saved,
+    // Saved before several agencies could be selected
+    selectedAgencies:
+      saved.selectedAgencies ||
+      (saved.selectedAgency ? [saved.selectedAgency as WizardState["selectedAgencies"][0]] : []),
+    isLoading: false,
+    error: null,
+  };
+}
+
+function readDrafts(): WizardDraft[] {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    const drafts: WizardDraft[] = saved ? JSON.parse(saved) : [];
+
+    const legacy = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (legacy) {
+      const parsed = JSON.parse(legacy);
+      const now = new Date().toISOString();
+      drafts.push({
+        id: crypto.randomUUID(),
+        state: restoreState(parsed.state || {}),
+        editedRequest: parsed.editedRequest || "",
+        createdAt: now,
+        updatedAt: now,
+      });
+      writeDrafts(drafts);
+      localStorage.removeItem(LEGACY_STORAGE_KEY);
+    }
+
+    return drafts.map((d) => ({ ...d, state: restoreState(d.state) }));
+  } catch (e) {
+    console.error("Failed to load drafts:", e);
+    return [];
+  }
+}
+
+function writeDrafts(drafts: WizardDraft[]): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(drafts));
+}
+
+const CHANGE_EVENT = "foia-drafts-change";
+
+function notifyChange(): void {
+  window.dispatchEvent(new Event(CHANGE_EVENT));
+}
+
+// For useSyncExternalStore: fires on changes from this tab and others
+export function subscribeToDrafts(callback: () => void): () => void {
+  window.addEventListener(CHANGE_EVENT, callback);
+  window.addEventListener("storage", callback);
+  return () => {
+    window.removeEventListener(CHANGE_EVENT, callback);
+    window.removeEventListener("storage", callback);
+  };
+}
+
+// The stored JSON, which only changes identity when the drafts do
+export function getDraftsSnapshot(): string {
+  return localStorage.getItem(STORAGE_KEY) || "";
+}
+
+export function listDrafts(): WizardDraft[] {
+  // Most recently worked on first
+  return readDrafts().sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export function getDraft(id: string): WizardDraft | null {
+  return readDrafts().find((d) => d.id === id) || null;
+}
+
+export function createDraft(state: WizardState, editedRequest: string): WizardDraft {
+  const now = new Date().toISOString();
+  const draft: WizardDraft = {
+    id: crypto.randomUUID(),
+    state: restoreState(state),
+    editedRequest,
+    createdAt: now,
+    updatedAt: now,
+  };
+  writeDrafts([...readDrafts(), draft]);
+  notifyChange();
+  return draft;
+}
+
+export function saveDraft(id: string, state: WizardState, editedRequest: string): void {
+  const drafts = readDrafts();
+  const index = drafts.findIndex((d) => d.id === id);
+  if (index === -1) return;
+
+  drafts[index] = {
+    ...drafts[index],
+    state: restoreState(state),
+    editedRequest,
+    updatedAt: new Date().toISOString(),
+  };
+  writeDrafts(drafts);
+  notifyChange();
+}
+
+export function duplicateDraft(id: string): WizardDraft | null {
+  const original = getDraft(id);
+  return original ? createDraft(original.state, original.editedRequest) : null;
+}
+
+export function deleteDraft(id: string): void {
+  writeDrafts(readDrafts().filter((d) => d.id !== id));
+  notifyChange();
+}
@@ -0,0 +1,73 @@
+// Email transport selection
+//
+// EMAIL_PROVIDER picks the primary provider (mailjet, sendgrid, resend or smtp;
+// defaults to mailjet). If EMAIL_FALLBACK_PROVIDER is set, a send that fails
+// on the primary is retried once on the fallback.
+
+import { EmailAddress, EmailTransport } from "@/lib/email/transport";
+import { createMailjetTransport } from "@/lib/email/mailjet";
+import { createSendGridTransport } from "@/lib/email/sendgrid";
+import { createResendTransport } from "@/lib/email/resend";
+import { createSmtpTransport } from "@/lib/email/smtp";
+
+export type { EmailAddress, EmailMessage, EmailTransport, SendResult } from "@/lib/email/transport";
+
+const PROVIDERS: Record<string, () => EmailTransport | null> = {
+  mailjet: createMailjetTransport,
+  sendgrid: createSendGridTransport,
+  resend: createResendTransport,
+  smtp: createSmtpTransport,
+};
+
+function createTransport(provider: string): EmailTransport | null {
+  const factory = PROVIDERS[provider.toLowerCase()];
+  if (!factory) {
+    console.error(`Unknown email provider: ${provider}`);
+    return null;
+  }
+  return factory();
+}
+
+export function createFailoverTransport(
+  primary: EmailTransport,
+  secondary: EmailTransport
+): EmailTransport {
+  return {
+    name: `${primary.name}+${secondary.name}`,
+    async send(message) {
+      try {
+        return await primary.send(message);
+      } catch (primaryError) {
+        console.error(
+          `${primary.name} failed, falling back to ${secondary.name}:`,
+          primaryError
+        );
+        return secondary.send(message);
+      }
+    },
+  };
+}
+
+export function getEmailTransport(): EmailTransport | null {
+  const primary = createTransport(process.env.EMAIL_PROVIDER || "mailjet");
+  const fallbackProvider = process.env.EMAIL_FALLBACK_PROVIDER;
+  const fallback = fallbackProvider ? createTransport(fallbackProvider) : null;
+
+  if (primary && fallback) {
+    return createFailoverTransport(primary, fallback);
+  }
+  return primary || fallback;
+}
+
+// Sender address, falling back to the Mailjet-specific variables used before
+// providers were configurable
+export function getSender(): EmailAddress | null {
+  const email = process.env.EMAIL_FROM_ADDRESS || process.env.MAILJET_FROM_EMAIL;
+  if (!email) {
+    return null;
+  }
+  return {
+    email,
+    name: process.env.EMAIL_FROM_NAME || process.env.MAILJET_FROM_NAME || "FOIA Request",
+  };
+}
@@ -0,0 +1,51 @@
+import Mailjet from "node-mailjet";
+import { EmailTransport } from "@/lib/email/transport";
+
+export function createMailjetTransport(): EmailTransport | null {
+  const apiKey = process.env.MAILJET_API_KEY;
+  const secretKey = process.env.MAILJET_SECRET_KEY;
+
+  if (!apiKey || !secretKey) {
+    console.error("Mailjet credentials not set");
+    return null;
+  }
+
+  const mailjet = new Mailjet({ apiKey, apiSecret: secretKey });
+
+  return {
+    name: "mailjet",
+    async send(message) {
+      const result = await mailjet.post("send", { version: "v3.1" }).request({
+        Messages: [
+          {
+            From: {
+              Email: message.from.email,
+              Name: message.from.name,
+            },
+            To: [
+              {
+                Email: message.to,
+              },
+            ],
+            ...(message.replyTo && {
+              ReplyTo: {
+                Email: message.replyTo.email,
+                Name: message.replyTo.name,
+              },
+            }),
+            Subject: message.subject,
+            TextPart: message.text,
+            ...(message.html && { HTMLPart: message.html }),
+          },
+        ],
+      });
+
+      const body = result.body as {
+        Messages?: { To?: { MessageID?: number | string }[] }[];
+      };
+      const messageId = body.Messages?.[0]?.To?.[0]?.MessageID;
+
+      return { provider: "mailjet", messageId: messageId ? String(messageId) : undefined };
+    },
+  };
+}
@@ -0,0 +1,34 @@
+import { Resend } from "resend";
+import { EmailTransport, formatAddress } from "@/lib/email/transport";
+
+export function createResendTransport(): EmailTransport | null {
+  const apiKey = process.env.RESEND_API_KEY;
+
+  if (!apiKey) {
+    console.error("Resend API key not set");
+    return null;
+  }
+
+  const resend = new Resend(apiKey);
+
+  return {
+    name: "resend",
+    async send(message) {
+      // Resend reports failures in the result instead of throwing
+      const { data, error } = await resend.emails.send({
+        from: formatAddress(message.from),
+        to: message.to,
+        replyTo: message.replyTo ? formatAddress(message.replyTo) : undefined,
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+      });
+
+      if (error) {
+        throw new Error(`Resend error: ${error.message}`);
+      }
+
+      return { provider: "resend", messageId: data?.id };
+    },
+  };
+}
@@ -0,0 +1,33 @@
+import { MailService } from "@sendgrid/mail";
+import { EmailTransport } from "@/lib/email/transport";
+
+export function createSendGridTransport(): EmailTransport | null {
+  const apiKey = process.env.SENDGRID_API_KEY;
+
+  if (!apiKey) {
+    console.error("SendGrid API key not set");
+    return null;
+  }
+
+  const sendgrid = new MailService();
+  sendgrid.setApiKey(apiKey);
+
+  return {
+    name: "sendgrid",
+    async send(message) {
+      const [response] = await sendgrid.send({
+        from: { email: message.from.email, name: message.from.name },
+        to: message.to,
+        replyTo: message.replyTo
+          ? { email: message.replyTo.email, name: message.replyTo.name }
+          : undefined,
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+      });
+
+      const messageId = response.headers["x-message-id"];
+      return { provider: "sendgrid", messageId: messageId ? String(messageId) : undefined };
+    },
+  };
+}
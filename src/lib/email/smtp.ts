@@ -0,0 +1,38 @@
+import nodemailer from "nodemailer";
+import { EmailTransport, formatAddress } from "@/lib/email/transport";
+
+// Plain SMTP, e.g. a local MailHog or Mailpit catcher on port 1025 in development
+export function createSmtpTransport(): EmailTransport | null {
+  const host = process.env.SMTP_HOST;
+
+  if (!host) {
+    console.error("SMTP host not set");
+    return null;
+  }
+
+  const port = parseInt(process.env.SMTP_PORT || "587", 10);
+  const user = process.env.SMTP_USER;
+
+  const transporter = nodemailer.createTransport({
+    host,
+    port,
+    secure: process.env.SMTP_SECURE === "true" || port === 465,
+    auth: user ? { user, pass: process.env.SMTP_PASS || "" } : undefined,
+  });
+
+  return {
+    name: "smtp",
+    async send(message) {
+      const info = await transporter.sendMail({
+        from: formatAddress(message.from),
+        to: message.to,
+        replyTo: message.replyTo ? formatAddress(message.replyTo) : undefined,
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+      });
+
+      return { provider: "smtp", messageId: info.messageId };
+    },
+  };
+}
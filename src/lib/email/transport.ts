@@ -0,0 +1,29 @@
+// Provider-agnostic email sending
+
+export interface EmailAddress {
+  email: string;
+  name?: string;
+}
+
+export interface EmailMessage {
+  from: EmailAddress;
+  to: string;
+  replyTo?: EmailAddress;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface SendResult {
+  provider: string;
+  messageId?: string;
+}
+
+export interface EmailTransport {
+  name: string;
+  send(message: EmailMessage): Promise<SendResult>;
+}
+
+export function formatAddress(address: EmailAddress): string {
+  return address.name ? `"${address.name.replace(/"/g, "")}" <${address.email}>` : address.email;
+}
@@ -0,0 +1,43 @@
+// FOIA exemptions under 5 U.S.C. § 552(b)
+
+export interface Exemption {
+  code: string;
+  label: string;
+}
+
+export const FOIA_EXEMPTIONS: Exemption[] = [
+  { code: "(b)(1)", label: "Classified national defense or foreign policy information" },
+  { code: "(b)(2)", label: "Internal personnel rules and practices" },
+  { code: "(b)(3)", label: "Information exempted by another statute" },
+  { code: "(b)(4)", label: "Trade secrets and confidential commercial information" },
+  { code: "(b)(5)", label: "Privileged inter- or intra-agency communications" },
+  { code: "(b)(6)", label: "Personal privacy" },
+  { code: "(b)(7)(A)", label: "Interference with enforcement proceedings" },
+  { code: "(b)(7)(B)", label: "Deprivation of a right to a fair trial" },
+  { code: "(b)(7)(C)", label: "Personal privacy in law enforcement records" },
+  { code: "(b)(7)(D)", label: "Confidential sources" },
+  { code: "(b)(7)(E)", label: "Law enforcement techniques and procedures" },
+  { code: "(b)(7)(F)", label: "Endangering life or physical safety" },
+  { code: "(b)(8)", label: "Financial institution examination reports" },
+  { code: "(b)(9)", label: "Geological and geophysical information about wells" },
+];
+
+// Find exemption codes cited in a letter, e.g. "(b)(6)", "b6" or "(b)(7)(C)"
+export function findCitedExemptions(text: string): string[] {
+  const cited = new Set<string>();
+  // A subsection is either parenthesised or written straight after the
+  // number ("b7C"), so the next word's capital ("(b)(7) But") isn't read as one
+  const pattern =
+    /(?<![A-Za-z])\(?b\)?\s*\(?([1-9])\)?(?:\s*\(([A-F])\)|([A-F])(?![A-Za-z]))?(?![0-9])/g;
+
+  for (const match of text.matchAll(pattern)) {
+    const number = match[1];
+    const subsection = match[2] || match[3];
+    const code = number === "7" && subsection ? `(b)(7)(${subsection})` : `(b)(${number})`;
+    if (FOIA_EXEMPTIONS.some((e) => e.code === code)) {
+      cited.add(code);
+    }
+  }
+
+  return FOIA_EXEMPTIONS.map((e) => e.code).filter((code) => cited.has(code));
+}
@@ -0,0 +1,118 @@
+// Responses to agency fee estimates: accept, narrow the scope, or contest the
+// fee category the agency assigned
+import { Correspondence, FOIARequest, UserDetails } from "@/lib/types";
+import { FEE_CATEGORY_LABELS } from "@/lib/letter";
+
+export type FeeResponseAction = "accept" | "narrow" | "contest";
+
+export const FEE_RESPONSE_ACTIONS: { id: FeeResponseAction; label: string }[] = [
+  { id: "accept", label: "Accept Estimate" },
+  { id: "narrow", label: "Narrow Scope" },
+  { id: "contest", label: "Contest Fee Category" },
+];
+
+export interface FeeEstimate {
+  correspondence: Correspondence;
+  amount: number;
+  maxFee: number;
+  overLimit: boolean;
+}
+
+export interface FeeResponseOptions {
+  narrowedRequest?: string;
+  feeCategory?: UserDetails["feeCategory"];
+  justification?: string;
+}
+
+export interface FeeResponseLetter {
+  subject: string;
+  body: string;
+}
+
+export function isFeeResponseAction(value: unknown): value is FeeResponseAction {
+  return FEE_RESPONSE_ACTIONS.some((a) => a.id === value);
+}
+
+// The most recent fee estimate the requester has not yet answered
+export function getOpenFeeEstimate(request: FOIARequest): FeeEstimate | null {
+  const latest = (request.correspondence || [])
+    .filter(
+      (c) =>
+        c.classification?.kind === "fee_estimate" &&
+        c.classification.estimatedFee !== undefined &&
+        !c.classification.actionResolvedAt
+    )
+    .sort((a, b) => b.receivedAt.localeCompare(a.receivedAt))[0];
+
+  if (!latest) {
+    return null;
+  }
+
+  const amount = latest.classification!.estimatedFee!;
+  const { maxFee } = request.userDetails;
+  return { correspondence: latest, amount, maxFee, overLimit: amount > maxFee };
+}
+
+function formatFee(amount: number): string {
+  return `$${amount.toFixed(2)}`;
+}
+
+export function composeFeeResponse(
+  request: FOIARequest,
+  estimate: FeeEstimate,
+  action: FeeResponseAction,
+  options: FeeResponseOptions = {}
+): FeeResponseLetter {
+  const { userDetails } = request;
+  const originalSubject = `FOIA Request - ${request.briefDescription}`;
+  const reference = request.trackingNumber
+    ? `request number ${request.trackingNumber}`
+    : `my request "${originalSubject}"`;
+
+  const subject = `Re: ${originalSubject}${
+    request.trackingNumber ? ` (Tracking No. ${request.trackingNumber})` : ""
+  } - Fee Estimate`;
+
+  let paragraphs: string[];
+  switch (action) {
+    case "accept":
+      paragraphs = [
+        `Thank you for your fee estimate of ${formatFee(estimate.amount)} for ${reference}.`,
+        `I agree to pay fees of up to ${formatFee(estimate.amount)} to process this request. Please proceed with processing, and contact me before incurring any fees beyond this amount.`,
+      ];
+      break;
+
+    case "narrow":
+      paragraphs = [
+        `Thank you for your fee estimate of ${formatFee(estimate.amount)} for ${reference}.`,
+        `To reduce the search and duplication costs, I am narrowing the scope of the request. Please process the following in place of my original description:`,
+        options.narrowedRequest?.trim() || request.rephrasedRequest,
+        `I remain willing to pay up to ${formatFee(userDetails.maxFee)}. If the revised scope will still exceed that amount, please provide an updated estimate before proceeding.`,
+      ];
+      break;
+
+    case "contest": {
+      const category = options.feeCategory || userDetails.feeCategory;
+      paragraphs = [
+        `Thank you for your fee estimate of ${formatFee(estimate.amount)} for ${reference}.`,
+        `I respectfully disagree with the fee category applied to this request. Under 5 U.S.C. § 552(a)(4)(A)(ii), I should be classified as: ${FEE_CATEGORY_LABELS[category]}.`,
+        ...(options.justification?.trim() ? [options.justification.trim()] : []),
+        `Please recalculate the estimate under the correct fee category and send me a revised estimate before proceeding. I remain willing to pay up to ${formatFee(userDetails.maxFee)}.`,
+      ];
+      break;
+    }
+  }
+
+  const body = `Dear FOIA Officer,
+
+${paragraphs.join("\n\n")}
+
+Thank you for your time and assistance.
+
+Sincerely,
+${userDetails.firstName} ${userDetails.lastName}
+${userDetails.email}
+`;
+
+  return { subject, body };
+}
@@ -0,0 +1,69 @@
+// Status-inquiry letters for requests that have passed their response deadline
+import { FOIARequest } from "@/lib/types";
+import { getDeadlines, formatDeadline, toDay } from "@/lib/deadlines";
+
+export interface StatusInquiry {
+  subject: string;
+  body: string;
+}
+
+// Requests the agency has not yet answered with a final determination
+export function isAwaitingResponse(request: FOIARequest): boolean {
+  return (
+    request.status === "submitted" ||
+    request.status === "acknowledged" ||
+    request.status === "pending"
+  );
+}
+
+export function isOverdue(request: FOIARequest, now: Date = new Date()): boolean {
+  if (!isAwaitingResponse(request) || !request.submittedAt) {
+    return false;
+  }
+  const { responseDue } = getDeadlines(request.submittedAt, {
+    tollingPeriods: request.tollingPeriods,
+  });
+  return responseDue !== null && toDay(now) > responseDue;
+}
+
+export function composeStatusInquiry(request: FOIARequest): StatusInquiry {
+  const { userDetails } = request;
+  const originalSubject = `FOIA Request - ${request.briefDescription}`;
+  const submittedOn = request.submittedAt
+    ? formatDeadline(toDay(request.submittedAt))
+    : "an earlier date";
+  const { responseDue } = request.submittedAt
+    ? getDeadlines(request.submittedAt, { tollingPeriods: request.tollingPeriods })
+    : { responseDue: null };
+
+  const subject = `Re: ${originalSubject}${
+    request.trackingNumber ? ` (Tracking No. ${request.trackingNumber})` : ""
+  }`;
+
+  const body = `Dear FOIA Officer,
+
+I am writing to follow up on the Freedom of Information Act request I submitted to ${request.agency.name} on ${submittedOn} under the subject line "${originalSubject}".${
+    request.trackingNumber
+      ? ` Your office assigned it tracking number ${request.trackingNumber}.`
+      : ""
+  }
+
+For reference, the request sought the following records:
+
+${request.rephrasedRequest}
+
+Under 5 U.S.C. § 552(a)(6)(A)(i), a determination was due within 20 business days${
+    responseDue ? `, by ${formatDeadline(responseDue)}` : ""
+  }. I have not yet received a response. Pursuant to 5 U.S.C. § 552(a)(7)(B), I would appreciate it if you could let me know the current status of the request, the date your office received it, and an estimated date on which you expect to complete action on it.
+
+If you need any clarification from me to process the request, please do not hesitate to contact me.
+
+Thank you for your time and assistance.
+
+Sincerely,
+${userDetails.firstName} ${userDetails.lastName}
+${userDetails.email}
+`;
+
+  return { subject, body };
+}
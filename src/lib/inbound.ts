@@ -0,0 +1,311 @@
+// Inbound agency replies: parse provider payloads, match them to stored
+// requests and attach them with the status change they imply
+import { randomUUID } from "crypto";
+import { simpleParser, AddressObject } from "mailparser";
+import { Attachment, Correspondence, FOIARequest, FOIARequestUpdate, RequestStatus } from "@/lib/types";
+import { listRequests, addCorrespondence } from "@/lib/requests";
+import { isStatusAdvance } from "@/lib/request-status";
+import { readCollection, writeCollection, writeDataFile } from "@/lib/store";
+
+// Limits on what an inbound message may write to disk: each attachment, and
+// all of a message's attachments together
+export const MAX_ATTACHMENT_BYTES = 20 * 1024 * 1024; // 20 MB
+export const MAX_MESSAGE_ATTACHMENT_BYTES = 50 * 1024 * 1024; // 50 MB
+
+export interface InboundAttachment {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+export interface InboundMessage {
+  from: string;
+  subject: string;
+  text: string;
+  html?: string;
+  date?: Date;
+  attachments: InboundAttachment[];
+}
+
+export type InboundSource = Correspondence["source"];
+
+export interface IngestResult {
+  request: FOIARequest | null;
+  correspondence: Correspondence;
+}
+
+// ============ Parsing ============
+
+function addressText(address?: AddressObject | AddressObject[]): string {
+  if (!address) return "";
+  return Array.isArray(address) ? address.map((a) => a.text).join(", ") : address.text;
+}
+
+export async function parseRawMessage(raw: string | Buffer): Promise<InboundMessage> {
+  const parsed = await simpleParser(raw);
+  return {
+    from: addressText(parsed.from),
+    subject: parsed.subject || "",
+    text: parsed.text || "",
+    html: parsed.html || undefined,
+    date: parsed.date,
+    attachments: parsed.attachments.map((a) => ({
+      filename: a.filename || "attachment",
+      contentType: a.contentType,
+      content: a.content,
+    })),
+  };
+}
+
+// SendGrid Inbound Parse posts multipart form data, with the full MIME
+// message in an "email" field when "Send Raw" is enabled
+export async function parseSendGridForm(form: FormData): Promise<InboundMessage> {
+  const raw = form.get("email");
+  if (typeof raw === "string" && raw.length > 0) {
+    return parseRawMessage(raw);
+  }
+
+  const field = (name: string) => {
+    const value = form.get(name);
+    return typeof value === "string" ? value : "";
+  };
+
+  let attachmentInfo: Record<string, { filename?: string; type?: string }> = {};
+  try {
+    attachmentInfo = JSON.parse(field("attachment-info") || "{}");
+  } catch {
+    console.error("Invalid SendGrid attachment-info");
+  }
+
+  const attachments: InboundAttachment[] = [];
+  const count = parseInt(field("attachments") || "0", 10);
+  for (let i = 1; i <= count; i++) {
+    const file = form.get(`attachment${i}`);
+    if (file && typeof file !== "string") {
+      const info = attachmentInfo[`attachment${i}`] || {};
+      attachments.push({
+        filename: info.filename || file.name || `attachment${i}`,
+        contentType: info.type || file.type || "application/octet-stream",
+        content: Buffer.from(await file.arrayBuffer()),
+      });
+    }
+  }
+
+  return {
+    from: field("from"),
+    subject: field("subject"),
+    text: field("text"),
+    html: field("html") || undefined,
+    attachments,
+  };
+}
+
+interface MailjetPart {
+  ContentRef?: string;
+  Headers?: Record<string, string>;
+}
+
+// Mailjet Parse API posts JSON with attachments as base64 "AttachmentN" fields
+export function parseMailjetPayload(payload: Record<string, unknown>): InboundMessage {
+  const field = (name: string) => (typeof payload[name] === "string" ? (payload[name] as string) : "");
+  const parts = (Array.isArray(payload.Parts) ? payload.Parts : []) as MailjetPart[];
+
+  const attachments: InboundAttachment[] = [];
+  for (const part of parts) {
+    const ref = part.ContentRef || "";
+    if (!ref.startsWith("Attachment") || !field(ref)) continue;
+
+    const headers = part.Headers || {};
+    const disposition = headers["Content-Disposition"] || "";
+    const contentType = headers["Content-Type"] || "application/octet-stream";
+    const filename =
+      /filename="?([^";]+)"?/i.exec(disposition)?.[1] ||
+      /name="?([^";]+)"?/i.exec(contentType)?.[1] ||
+      ref;
+
+    attachments.push({
+      filename,
+      contentType: contentType.split(";")[0].trim(),
+      content: Buffer.from(field(ref), "base64"),
+    });
+  }
+
+  return {
+    from: field("From") || field("Sender"),
+    subject: field("Subject"),
+    text: field("Text-part"),
+    html: field("Html-part") || undefined,
+    attachments,
+  };
+}
+
+// ============ Matching ============
+
+function normalizeSubject(subject: string): string {
+  return subject
+    .replace(/^\s*((re|fwd?|aw)\s*:\s*)+/i, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .toLowerCase();
+}
+
+function emailDomain(address: string): string {
+  const match = /@([^\s>]+)/.exec(address);
+  return match ? match[1].toLowerCase() : "";
+}
+
+function containsToken(text: string, token: string): boolean {
+  const escaped = token.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(^|[^A-Za-z0-9-])${escaped}($|[^A-Za-z0-9-])`, "i").test(text);
+}
+
+export function findMatchingRequest(
+  message: InboundMessage,
+  requests: FOIARequest[]
+): FOIARequest | null {
+  const haystack = `${message.subject}\n${message.text}`;
+
+  // An agency tracking number or our own id is the strongest signal
+  const byTracking = requests.find(
+    (r) => r.trackingNumber && containsToken(haystack, r.trackingNumber)
+  );
+  if (byTracking) return byTracking;
+
+  const byId = requests.find((r) => haystack.includes(r.id));
+  if (byId) return byId;
+
+  // Otherwise look for the subject line we sent
+  const subject = normalizeSubject(message.subject);
+  const bySubject = requests.filter(
+    (r) =>
+      r.briefDescription &&
+      subject.includes(normalizeSubject(`FOIA Request - ${r.briefDescription}`))
+  );
+  if (bySubject.length <= 1) return bySubject[0] || null;
+
+  // Several requests share a subject: prefer the one sent to the replying agency
+  const senderDomain = emailDomain(message.from);
+  return (
+    bySubject.find((r) => r.agencyEmail && emailDomain(r.agencyEmail) === senderDomain) ||
+    bySubject[0]
+  );
+}
+
+// ============ Status ============
+
+// Checked most-advanced first
+const STATUS_SIGNALS: { status: RequestStatus; patterns: RegExp[] }[] = [
+  {
+    status: "rejected",
+    patterns: [/\bdenied in (its )?(entirety|full)\b/i, /\bwithheld in (its )?(entirety|full)\b/i],
+  },
+  {
+    status: "completed",
+    patterns: [
+      /\bfinal (response|determination)\b/i,
+      /\bno (responsive )?records\b/i,
+      /\b(processing|search) (of your request )?(is|has been) (now )?complete/i,
+      /\brecords? (are|is) enclosed\b/i,
+    ],
+  },
+  {
+    status: "pending",
+    patterns: [
+      /\binterim (release|response)\b/i,
+      /\bfee estimate\b/i,
+      /\bestimated (fees?|cost)\b/i,
+      /\bclarif(y|ication)\b/i,
+      /\bunusual circumstances\b/i,
+      /\bextension\b/i,
+    ],
+  },
+  {
+    status: "acknowledged",
+    patterns: [
+      /\backnowledg(e|es|ing|ement)\b/i,
+      /\b(has been|was) received\b/i,
+      /\bwe (have )?received your\b/i,
+      /\bassigned (the )?(tracking|request|control|reference) (number|no)/i,
+    ],
+  },
+];
+
+export function inferStatus(message: InboundMessage): RequestStatus | null {
+  const text = `${message.subject}\n${message.text}`;
+  const signal = STATUS_SIGNALS.find((s) => s.patterns.some((p) => p.test(text)));
+  return signal ? signal.status : null;
+}
+
+const TRACKING_PATTERN =
+  /\b(?:tracking|request|control|reference|case|FOIA)\s*(?:number|no\.?|#)\s*(?:is\s*)?[:#]?\s*([A-Z0-9][A-Z0-9-]*\d[A-Z0-9-]*)/i;
+
+export function extractTrackingNumber(message: InboundMessage): string | null {
+  const match = TRACKING_PATTERN.exec(`${message.subject}\n${message.text}`);
+  return match ? match[1] : null;
+}
+
+// ============ Ingestion ============
+
+function saveAttachments(folder: string, attachments: InboundAttachment[]): Attachment[] {
+  const saved: Attachment[] = [];
+  let total = 0;
+  for (const a of attachments) {
+    const size = a.content.length;
+    if (size > MAX_ATTACHMENT_BYTES || total + size > MAX_MESSAGE_ATTACHMENT_BYTES) {
+      console.warn(`Skipped inbound attachment ${a.filename} (${size} bytes): over the size limit`);
+      continue;
+    }
+    total += size;
+
+    const id = randomUUID();
+    const safeName = a.filename.replace(/[^A-Za-z0-9._-]/g, "_");
+    const relativePath = `attachments/${folder}/${id}-${safeName}`;
+    writeDataFile(relativePath, a.content);
+    saved.push({
+      id,
+      filename: a.filename,
+      contentType: a.contentType,
+      size,
+      path: relativePath,
+    });
+  }
+  return saved;
+}
+
+export function ingestInboundMessage(message: InboundMessage, source: InboundSource): IngestResult {
+  const request = findMatchingRequest(message, listRequests());
+
+  const correspondence: Correspondence = {
+    id: randomUUID(),
+    receivedAt: (message.date || new Date()).toISOString(),
+    from: message.from,
+    subject: message.subject,
+    text: message.text,
+    html: message.html,
+    attachments: saveAttachments(request ? request.id : "unmatched", message.attachments),
+    source,
+  };
+
+  if (!request) {
+    // Keep replies we could not match so nothing an agency sends is lost
+    const unmatched = readCollection<Correspondence>("unmatched-correspondence");
+    unmatched.push(correspondence);
+    writeCollection("unmatched-correspondence", unmatched);
+    return { request: null, correspondence };
+  }
+
+  const update: FOIARequestUpdate = {};
+  const status = inferStatus(message);
+  if (status && isStatusAdvance(request.status, status)) {
+    update.status = status;
+  }
+  const trackingNumber = extractTrackingNumber(message);
+  if (trackingNumber && !request.trackingNumber) {
+    update.trackingNumber = trackingNumber;
+  }
+
+  return {
+    request: addCorrespondence(request.id, correspondence, update),
+    correspondence,
+  };
+}
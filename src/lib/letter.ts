@@ -0,0 +1,228 @@
+// Single source for the FOIA request letter
+// The preview in SubmitStep, the email sent by /api/submit and the text typed
+// into agency portals are all rendered from the same sections here.
+
+import { UserDetails } from "@/lib/types";
+import { getDeadlines, formatDeadline } from "@/lib/deadlines";
+
+export type LetterSection =
+  | "recordsSought"
+  | "feeCategory"
+  | "feeLimit"
+  | "feeWaiver"
+  | "expeditedProcessing"
+  | "formatPreference";
+
+export type LetterSections = Record<LetterSection, boolean>;
+
+export const LETTER_SECTIONS: { id: LetterSection; label: string; required?: boolean }[] = [
+  { id: "recordsSought", label: "Records sought", required: true },
+  { id: "feeCategory", label: "Fee category" },
+  { id: "feeLimit", label: "Fee limit" },
+  { id: "feeWaiver", label: "Fee waiver" },
+  { id: "expeditedProcessing", label: "Expedited processing" },
+  { id: "formatPreference", label: "Format preference" },
+];
+
+export const FEE_CATEGORY_LABELS: Record<UserDetails["feeCategory"], string> = {
+  commercial: "Commercial use requester",
+  educational: "Educational institution",
+  news_media: "Representative of the news media",
+  other: "All other requesters",
+};
+
+export interface LetterInput {
+  rephrasedRequest: string;
+  briefDescription: string;
+  userDetails: UserDetails;
+  // Names the agency in the letter when the same request goes to several
+  agencyName?: string;
+  sections?: Partial<LetterSections>;
+  expeditedJustification?: string;
+  // Day the agency receives the request; defaults to today
+  receivedOn?: Date;
+}
+
+export interface ComposedLetter {
+  subject: string;
+  text: string;
+  html: string;
+  portalDescription: string;
+}
+
+interface Block {
+  heading?: string;
+  lines: string[];
+}
+
+export function getDefaultSections(userDetails: UserDetails): LetterSections {
+  return {
+    recordsSought: true,
+    feeCategory: true,
+    feeLimit: true,
+    feeWaiver: userDetails.feeWaiverRequested,
+    expeditedProcessing: false,
+    formatPreference: true,
+  };
+}
+
+function resolveSections(input: LetterInput): LetterSections {
+  return {
+    ...getDefaultSections(input.userDetails),
+    ...input.sections,
+    recordsSought: true,
+  };
+}
+
+const FORMAT_PREFERENCE =
+  "I would prefer to receive records in electronic format (PDF or other common digital format) sent to my email address if possible.";
+
+function expeditedText(justification?: string): string[] {
+  return [
+    "I request expedited processing of this request under 5 U.S.C. § 552(a)(6)(E).",
+    `Justification: ${justification || "There is an urgency to inform the public concerning actual or alleged federal government activity."}`,
+    "I certify that the above statement is true and correct to the best of my knowledge and belief.",
+  ];
+}
+
+function buildBlocks(input: LetterInput): Block[] {
+  const { userDetails, rephrasedRequest } = input;
+  const sections = resolveSections(input);
+  const deadlines = getDeadlines(input.receivedOn || new Date());
+  const { address } = userDetails;
+
+  const blocks: Block[] = [
+    { lines: ["Dear FOIA Officer,"] },
+    {
+      lines: [
+        `Pursuant to the Freedom of Information Act, 5 U.S.C. § 552, I am requesting access to the following records${
+          input.agencyName ? ` held by the ${input.agencyName}` : ""
+        }:`,
+      ],
+    },
+    { lines: [rephrasedRequest] },
+    {
+      heading: "REQUESTER INFORMATION",
+      lines: [
+        `Name: ${userDetails.firstName} ${userDetails.lastName}`,
+        ...(userDetails.organization ? [`Organization: ${userDetails.organization}`] : []),
+        `Email: ${userDetails.email}`,
+        ...(userDetails.phone ? [`Phone: ${userDetails.phone}`] : []),
+        `Address: ${address.line1}${address.line2 ? `, ${address.line2}` : ""}, ${address.city}, ${address.state} ${address.zip}`,
+      ],
+    },
+  ];
+
+  if (sections.feeCategory) {
+    blocks.push({
+      heading: "FEE CATEGORY",
+      lines: [FEE_CATEGORY_LABELS[userDetails.feeCategory]],
+    });
+  }
+
+  if (sections.feeLimit) {
+    blocks.push({
+      heading: "FEE LIMITATION",
+      lines: [
+        `I am willing to pay up to $${userDetails.maxFee} for processing fees. If the estimated cost exceeds this amount, please contact me before proceeding.`,
+      ],
+    });
+  }
+
+  if (sections.feeWaiver) {
+    blocks.push({
+      heading: "FEE WAIVER REQUEST",
+      lines: [
+        "I am requesting a waiver of all fees associated with this request.",
+        `Justification: ${userDetails.feeWaiverReason || "Information will contribute significantly to public understanding."}`,
+      ],
+    });
+  }
+
+  if (sections.expeditedProcessing) {
+    blocks.push({
+      heading: "EXPEDITED PROCESSING",
+      lines: expeditedText(input.expeditedJustification),
+    });
+  }
+
+  if (sections.formatPreference) {
+    blocks.push({
+      heading: "PREFERRED RESPONSE FORMAT",
+      lines: [FORMAT_PREFERENCE],
+    });
+  }
+
+  blocks.push(
+    {
+      lines: [
+        `Thank you for your consideration of this request. I look forward to your response within the statutory timeframe of 20 business days, which falls on ${formatDeadline(deadlines.responseDue!)}.`,
+      ],
+    },
+    {
+      lines: [
+        "Sincerely,",
+        userDetails.signature?.trim() || `${userDetails.firstName} ${userDetails.lastName}`,
+        userDetails.email,
+      ],
+    }
+  );
+
+  return blocks;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function renderText(blocks: Block[]): string {
+  return (
+    blocks
+      .map((block) =>
+        block.heading ? [`${block.heading}:`, ...block.lines].join("\n") : block.lines.join("\n")
+      )
+      .join("\n\n") + "\n"
+  );
+}
+
+function renderHtml(blocks: Block[]): string {
+  return blocks
+    .map((block) => {
+      const body = block.lines.map(escapeHtml).join("<br>").replace(/\n/g, "<br>");
+      return block.heading
+        ? `<p><strong>${escapeHtml(block.heading)}:</strong><br>${body}</p>`
+        : `<p>${body}</p>`;
+    })
+    .join("\n");
+}
+
+// Portals collect contact details and fees in their own fields, so the
+// description only carries what has no field of its own
+function renderPortalDescription(input: LetterInput): string {
+  const sections = resolveSections(input);
+  const parts = [input.rephrasedRequest];
+
+  if (sections.expeditedProcessing) {
+    parts.push(expeditedText(input.expeditedJustification).join("\n"));
+  }
+  if (sections.formatPreference) {
+    parts.push(FORMAT_PREFERENCE);
+  }
+
+  return parts.join("\n\n");
+}
+
+export function composeLetter(input: LetterInput): ComposedLetter {
+  const blocks = buildBlocks(input);
+
+  return {
+    subject: `FOIA Request - ${input.briefDescription}`,
+    text: renderText(blocks),
+    html: renderHtml(blocks),
+    portalDescription: renderPortalDescription(input),
+  };
+}
@@ -0,0 +1,67 @@
+// Request body for /api/fill-portal, shared by single and batch submissions
+import { AgencyComponent, UserDetails } from "@/lib/types";
+
+export interface PortalFillInput {
+  agency: AgencyComponent;
+  query: string;
+  briefDescription: string;
+  userDetails: UserDetails;
+  requestDescription: string;
+  // Queued request to mark as submitted instead of recording a new one
+  requestId?: string;
+}
+
+export interface PortalFillBody {
+  agencyId: string;
+  agency?: AgencyComponent;
+  requestId?: string;
+  query?: string;
+  briefDescription?: string;
+  firstName: string;
+  lastName: string;
+  organization?: string;
+  email: string;
+  phone?: string;
+  addressLine1: string;
+  addressLine2?: string;
+  city: string;
+  state: string;
+  zip: string;
+  requestDescription: string;
+  feeWaiverRequested: boolean;
+  feeWaiverReason?: string;
+  maxFee: number;
+  feeCategory: string;
+}
+
+export function buildPortalFillBody({
+  agency,
+  query,
+  briefDescription,
+  userDetails,
+  requestDescription,
+  requestId,
+}: PortalFillInput): PortalFillBody {
+  return {
+    agencyId: agency.id,
+    agency,
+    requestId,
+    query,
+    briefDescription,
+    firstName: userDetails.firstName,
+    lastName: userDetails.lastName,
+    organization: userDetails.organization,
+    email: userDetails.email,
+    phone: userDetails.phone,
+    addressLine1: userDetails.address.line1,
+    addressLine2: userDetails.address.line2,
+    city: userDetails.address.city,
+    state: userDetails.address.state,
+    zip: userDetails.address.zip,
+    requestDescription,
+    feeWaiverRequested: userDetails.feeWaiverRequested,
+    feeWaiverReason: userDetails.feeWaiverReason,
+    maxFee: userDetails.maxFee,
+    feeCategory: userDetails.feeCategory,
+  };
+}
@@ -0,0 +1,194 @@
+// Map a portal fill request onto a component's form definition
+//
+// Shared fields are filled by name. Agency-specific fields are only guessed
+// when their names plainly ask for the requester's signature, today's date or
+// the requester's own contact details; per-component overrides answer others,
+// and everything else is left for the requester to answer.
+import { PortalFillBody } from "@/lib/portal-fill";
+import { AGENCY_SECTION, PortalField, PortalForm } from "@/lib/portal/form";
+import { getPortalOverride } from "@/lib/portal/overrides";
+
+export interface PortalFillStep {
+  field: PortalField;
+  action: "fill" | "select";
+  // Text to type, or the label of the option to choose
+  value: string;
+  // Enum index to select, when the options are known; without it the closest
+  // of the page's option labels is chosen
+  optionIndex?: string;
+  // Set when the value can't go into this field at all
+  rejected?: string;
+}
+
+const FEE_CATEGORY_LABELS: Record<string, string> = {
+  news_media: "news media",
+  educational: "Educational",
+  commercial: "Commercial",
+  other: "All other",
+};
+
+const US_STATES: Record<string, string> = {
+  AL: "Alabama", AK: "Alaska", AZ: "Arizona", AR: "Arkansas", CA: "California",
+  CO: "Colorado", CT: "Connecticut", DE: "Delaware", DC: "District of Columbia",
+  FL: "Florida", GA: "Georgia", HI: "Hawaii", ID: "Idaho", IL: "Illinois",
+  IN: "Indiana", IA: "Iowa", KS: "Kansas", KY: "Kentucky", LA: "Louisiana",
+  ME: "Maine", MD: "Maryland", MA: "Massachusetts", MI: "Michigan", MN: "Minnesota",
+  MS: "Mississippi", MO: "Missouri", MT: "Montana", NE: "Nebraska", NV: "Nevada",
+  NH: "New Hampshire", NJ: "New Jersey", NM: "New Mexico", NY: "New York",
+  NC: "North Carolina", ND: "North Dakota", OH: "Ohio", OK: "Oklahoma", OR: "Oregon",
+  PA: "Pennsylvania", RI: "Rhode Island", SC: "South Carolina", SD: "South Dakota",
+  TN: "Tennessee", TX: "Texas", UT: "Utah", VT: "Vermont", VA: "Virginia",
+  WA: "Washington", WV: "West Virginia", WI: "Wisconsin", WY: "Wyoming",
+};
+
+function todayString(): string {
+  const today = new Date();
+  return `${String(today.getMonth() + 1).padStart(2, "0")}/${String(today.getDate()).padStart(2, "0")}/${today.getFullYear()}`;
+}
+
+function sharedValue(name: string, body: PortalFillBody): string | null {
+  switch (name) {
+    case "name_first":
+      return body.firstName;
+    case "name_last":
+      return body.lastName;
+    case "email":
+      return body.email;
+    case "company_organization":
+      return body.organization || null;
+    case "phone_number":
+      return body.phone || null;
+    case "address_line1":
+      return body.addressLine1;
+    case "address_line2":
+      return body.addressLine2 || null;
+    case "address_city":
+      return body.city;
+    case "address_state_province":
+      return body.state;
+    case "address_zip_postal_code":
+      return body.zip;
+    case "address_country":
+      return "United States";
+    case "request_description":
+      return body.requestDescription;
+    case "request_category":
+      return FEE_CATEGORY_LABELS[body.feeCategory] || FEE_CATEGORY_LABELS.other;
+    case "fee_waiver":
+      return body.feeWaiverRequested ? "Yes" : "No";
+    case "fee_waiver_explanation":
+      return body.feeWaiverRequested ? body.feeWaiverReason || null : null;
+    case "fee_amount_willing":
+      return body.maxFee.toString();
+    case "expedited_processing":
+      return "No";
+    default:
+      return null;
+  }
+}
+
+// Fields about someone other than the requester, whose names can otherwise
+// look like a signature or contact field
+const OTHER_PERSON_PATTERN =
+  /(subject|deceased|third_party|witness|notary|minor|child|parent|spouse|relative|attorney|representative)/;
+
+// The requester's own contact fields, e.g. "requester_email" or
+// "contact_phone_number", mapped to the shared field with the same value
+const REQUESTER_CONTACT_PATTERN = /(^|_)(requester|contact)_/;
+const CONTACT_FIELDS: [RegExp, string][] = [
+  [/(first_name|name_first)$/, "name_first"],
+  [/(last_name|name_last)$/, "name_last"],
+  [/email$/, "email"],
+  [/phone(_number)?$/, "phone_number"],
+  [/address(_line1)?$/, "address_line1"],
+  [/city$/, "address_city"],
+  [/state(_province)?$/, "address_state_province"],
+  [/zip(_code)?$/, "address_zip_postal_code"],
+];
+
+// Agency-specific fields, only where the name leaves no doubt; any other
+// date, name or place could be about someone else, and these forms are often
+// signed under penalty of perjury
+function agencyValue(field: PortalField, body: PortalFillBody): string | null {
+  const name = field.name;
+  if (field.type === "file" || field.type === "checkbox") return null;
+  if (OTHER_PERSON_PATTERN.test(name)) return null;
+  if (/(^|_)signature$/.test(name)) return `${body.firstName} ${body.lastName}`;
+  if (/(^|_)(today|todays_date|date_signed|signature_date)$/.test(name)) return todayString();
+  if (REQUESTER_CONTACT_PATTERN.test(name)) {
+    const shared = CONTACT_FIELDS.find(([pattern]) => pattern.test(name));
+    return shared ? sharedValue(shared[1], body) : null;
+  }
+  return null;
+}
+
+// Index of the first option matching one of the labels: exactly, then by
+// prefix, then anywhere in the option
+export function matchOption(options: string[], ...labels: string[]): number | null {
+  const normalized = options.map((o) => o.trim().toLowerCase());
+  const wanted = labels.map((l) => l.trim().toLowerCase()).filter(Boolean);
+  const tests = [
+    (o: string, l: string) => o === l,
+    (o: string, l: string) => o.startsWith(l),
+    (o: string, l: string) => o.includes(l),
+  ];
+  for (const test of tests) {
+    for (const label of wanted) {
+      const index = normalized.findIndex((o) => test(o, label));
+      if (index >= 0) return index;
+    }
+  }
+  return null;
+}
+
+function selectStep(field: PortalField, value: string): PortalFillStep {
+  if (!field.options) {
+    // Matched against the page's own options when filled; state selects list
+    // names rather than abbreviations
+    return { field, action: "select", value: US_STATES[value.toUpperCase()] || value };
+  }
+  const index = matchOption(field.options, value, US_STATES[value.toUpperCase()] || "");
+  if (index === null) {
+    return { field, action: "select", value, rejected: `No option matches "${value}"` };
+  }
+  return { field, action: "select", value: field.options[index], optionIndex: String(index) };
+}
+
+// The fields to fill, in form order so conditional fields are revealed by the
+// selects before them
+export function planPortalFill(form: PortalForm, body: PortalFillBody): PortalFillStep[] {
+  const override = getPortalOverride(form.componentId);
+  const fields = form.fromSchema
+    ? form.fields
+    : [
+        ...form.fields,
+        ...(override?.fallbackFields || []).map((f) => ({
+          ...f,
+          section: AGENCY_SECTION,
+          id: `root_${AGENCY_SECTION}_${f.name}`,
+          title: f.name,
+          required: false,
+        })),
+      ];
+
+  const steps: PortalFillStep[] = [];
+  for (const field of fields) {
+    const sharedAs = override?.sharedAs?.[field.name];
+    const value =
+      override && field.name in override.values
+        ? override.values[field.name]
+        : sharedAs
+          ? sharedValue(sharedAs, body)
+          : field.section === AGENCY_SECTION
+            ? agencyValue(field, body)
+            : sharedValue(field.name, body);
+    if (!value) continue;
+
+    if (field.type === "select") {
+      steps.push(selectStep(field, value));
+    } else {
+      steps.push({ field, action: "fill", value });
+    }
+  }
+  return steps;
+}
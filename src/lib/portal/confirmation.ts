@@ -0,0 +1,73 @@
+// Recognise a portal's confirmation page and keep proof of what was filed
+import { randomUUID } from "crypto";
+import type { Page } from "playwright";
+import { Attachment, PortalFieldValue, PortalReceipt } from "@/lib/types";
+import { writeDataFile } from "@/lib/store";
+
+const CONFIRMATION_PATTERNS = [
+  /\b(request|submission) (has been|was) (successfully )?(submitted|received)\b/i,
+  /\bthank you for (your (foia )?request|submitting)\b/i,
+  /\bconfirmation (number|id|#)\b/i,
+  /\bsubmission (is )?complete\b/i,
+];
+
+const NUMBER_PATTERN =
+  /\b(?:confirmation|request|submission|tracking)\s*(?:id|number|no\.?|#)\s*(?:is\s*)?[:#]?\s*([A-Z0-9][A-Z0-9-]{3,})/gi;
+
+// Null unless the text reads like a confirmation page; the number is the
+// first labelled identifier that contains a digit
+export function parseConfirmation(text: string): { confirmationNumber?: string } | null {
+  if (!CONFIRMATION_PATTERNS.some((p) => p.test(text))) {
+    return null;
+  }
+  for (const match of text.matchAll(NUMBER_PATTERN)) {
+    if (/\d/.test(match[1])) {
+      return { confirmationNumber: match[1] };
+    }
+  }
+  return {};
+}
+
+function saveFile(
+  folder: string,
+  filename: string,
+  contentType: string,
+  content: Buffer
+): Attachment {
+  const id = randomUUID();
+  const relativePath = `receipts/${folder}/${id}-${filename}`;
+  writeDataFile(relativePath, content);
+  return { id, filename, contentType, size: content.length, path: relativePath };
+}
+
+// Full-page screenshot and PDF of the page as it stands, with the values
+// read from the form before it was submitted
+export async function captureReceipt(
+  page: Page,
+  requestId: string,
+  submittedValues: PortalFieldValue[],
+  confirmationNumber?: string
+): Promise<PortalReceipt> {
+  const receipt: PortalReceipt = {
+    confirmationNumber,
+    capturedAt: new Date().toISOString(),
+    url: page.url(),
+    submittedValues,
+  };
+
+  try {
+    const screenshot = await page.screenshot({ type: "png", fullPage: true });
+    receipt.screenshot = saveFile(requestId, "receipt.png", "image/png", screenshot);
+  } catch (error) {
+    console.error("Failed to capture receipt screenshot:", error);
+  }
+
+  try {
+    const pdf = await page.pdf({ format: "Letter", printBackground: true });
+    receipt.pdf = saveFile(requestId, "receipt.pdf", "application/pdf", pdf);
+  } catch (error) {
+    console.error("Failed to capture receipt PDF:", error);
+  }
+
+  return receipt;
+}
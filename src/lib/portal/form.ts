@@ -0,0 +1,241 @@
+// Request form definitions for foia.gov agency components
+//
+// foia.gov renders each component's webform with react-jsonschema-form, so a
+// field named "fee_waiver" in the "processing_fees" section gets the DOM id
+// "#root_processing_fees_fee_waiver", and a select's <option> values are the
+// indices of its enum rather than the labels. The component API publishes the
+// webform fields; everything outside the shared sections is agency-specific
+// and rendered under "supporting_docs".
+
+// Overridable so the portal harness can serve saved API responses
+function apiBase(): string {
+  return process.env.FOIA_API_BASE || "https://api.foia.gov/api";
+}
+const CACHE_DURATION = 24 * 60 * 60 * 1000; // 24 hours
+
+export type PortalFieldType = "text" | "textarea" | "select" | "date" | "checkbox" | "file";
+
+export interface PortalField {
+  name: string;
+  section: string;
+  // DOM id of the rendered input, without the leading "#"
+  id: string;
+  title: string;
+  type: PortalFieldType;
+  required: boolean;
+  // Option labels in enum order, for selects
+  options?: string[];
+}
+
+export interface PortalForm {
+  componentId: string;
+  fields: PortalField[];
+  // False when the definition could not be loaded and the shared fields
+  // were assumed instead
+  fromSchema: boolean;
+}
+
+// Fields every component's form shares, by section, in the order foia.gov
+// lays them out
+const SHARED_SECTIONS: Record<string, string[]> = {
+  requester_contact: [
+    "name_first",
+    "name_last",
+    "email",
+    "company_organization",
+    "phone_number",
+    "address_line1",
+    "address_line2",
+    "address_city",
+    "address_state_province",
+    "address_zip_postal_code",
+    "address_country",
+  ],
+  request_description: ["request_description"],
+  processing_fees: [
+    "request_category",
+    "fee_waiver",
+    "fee_waiver_explanation",
+    "fee_amount_willing",
+  ],
+  expedited_processing: ["expedited_processing", "expedited_processing_explanation"],
+};
+
+export const AGENCY_SECTION = "supporting_docs";
+
+const SECTION_BY_FIELD = new Map(
+  Object.entries(SHARED_SECTIONS).flatMap(([section, names]) =>
+    names.map((name) => [name, section] as const)
+  )
+);
+
+const SHARED_SELECTS: Record<string, string[]> = {
+  address_country: [],
+  request_category: [
+    "Representative of the news media",
+    "Educational institution",
+    "Non-commercial scientific institution",
+    "Commercial-use requester",
+    "All other requesters",
+  ],
+  fee_waiver: ["No", "Yes"],
+  expedited_processing: ["No", "Yes"],
+};
+
+const SHARED_TITLES: Record<string, string> = {
+  name_first: "First name",
+  name_last: "Last name",
+  email: "Email",
+  company_organization: "Organization",
+  phone_number: "Phone",
+  address_line1: "Address",
+  address_line2: "Address line 2",
+  address_city: "City",
+  address_state_province: "State",
+  address_zip_postal_code: "ZIP code",
+  address_country: "Country",
+  request_description: "Request description",
+  request_category: "Fee category",
+  fee_waiver: "Fee waiver",
+  fee_waiver_explanation: "Fee waiver explanation",
+  fee_amount_willing: "Fees willing to pay",
+  expedited_processing: "Expedited processing",
+  expedited_processing_explanation: "Expedited processing justification",
+};
+
+const TEXTAREAS = new Set([
+  "request_description",
+  "fee_waiver_explanation",
+  "expedited_processing_explanation",
+]);
+
+// The shared fields alone, used when a component's definition can't be loaded
+function sharedFields(): PortalField[] {
+  return Object.entries(SHARED_SECTIONS).flatMap(([section, names]) =>
+    names.map((name) => {
+      const options = SHARED_SELECTS[name];
+      return {
+        name,
+        section,
+        id: `root_${section}_${name}`,
+        title: SHARED_TITLES[name],
+        type: options ? "select" : TEXTAREAS.has(name) ? "textarea" : "text",
+        required: false,
+        // An empty list means the options are known only to the page
+        options: options && options.length > 0 ? options : undefined,
+      } satisfies PortalField;
+    })
+  );
+}
+
+interface APIFormField {
+  name?: string;
+  title?: string;
+  type?: string;
+  required?: boolean;
+  // Webform options come either as a list of labels or as a value -> label map
+  options?: string[] | Record<string, string>;
+}
+
+function fieldType(type: string | undefined, hasOptions: boolean): PortalFieldType {
+  switch (type) {
+    case "select":
+    case "radios":
+    case "webform_select_other":
+      return "select";
+    case "textarea":
+    case "text_format":
+      return "textarea";
+    case "date":
+    case "datelist":
+      return "date";
+    case "checkbox":
+      return "checkbox";
+    case "managed_file":
+    case "webform_document_file":
+      return "file";
+    default:
+      return hasOptions ? "select" : "text";
+  }
+}
+
+export function normalizeFormFields(componentId: string, input: APIFormField[]): PortalForm {
+  const fields: PortalField[] = [];
+  for (const field of input) {
+    if (!field?.name) continue;
+    const options = Array.isArray(field.options)
+      ? field.options
+      : field.options
+        ? Object.values(field.options)
+        : undefined;
+    const section = SECTION_BY_FIELD.get(field.name) || AGENCY_SECTION;
+    // Shared selects stay selects, with the usual options when the
+    // definition leaves them out
+    const sharedOptions = SHARED_SELECTS[field.name];
+    const type = sharedOptions ? "select" : fieldType(field.type, Boolean(options?.length));
+    const known = options?.length ? options : sharedOptions;
+    fields.push({
+      name: field.name,
+      section,
+      id: `root_${section}_${field.name}`,
+      title: field.title || field.name,
+      type,
+      required: Boolean(field.required),
+      options: type === "select" && known?.length ? known : undefined,
+    });
+  }
+
+  return { componentId, fields: withSharedFields(fields), fromSchema: true };
+}
+
+// Shared fields the definition leaves out are still rendered by foia.gov.
+// Each goes straight after the shared field before it, so a conditional field
+// such as fee_waiver_explanation still follows the select that reveals it.
+function withSharedFields(fields: PortalField[]): PortalField[] {
+  const merged = [...fields];
+  let previous = -1;
+  for (const shared of sharedFields()) {
+    const index = merged.findIndex((f) => f.name === shared.name);
+    if (index >= 0) {
+      previous = index;
+    } else {
+      merged.splice(++previous, 0, shared);
+    }
+  }
+  return merged;
+}
+
+const cache = new Map<string, { form: PortalForm; time: number }>();
+
+export async function loadPortalForm(componentId: string): Promise<PortalForm> {
+  const url = `${apiBase()}/agency_components/${componentId}/request_form`;
+  const cached = cache.get(url);
+  if (cached && Date.now() - cached.time < CACHE_DURATION) {
+    return cached.form;
+  }
+
+  try {
+    const response = await fetch(url, {
+      headers: {
+        "X-API-Key": process.env.FOIA_API_KEY || "",
+        Accept: "application/json",
+      },
+    });
+    if (!response.ok) {
+      throw new Error(`FOIA API error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    const formFields = data.formFields || data.data?.attributes?.formFields;
+    if (!Array.isArray(formFields)) {
+      throw new Error("Response has no form fields");
+    }
+
+    const form = normalizeFormFields(componentId, formFields);
+    cache.set(url, { form, time: Date.now() });
+    return form;
+  } catch (error) {
+    console.error(`Could not load the request form for ${componentId}:`, error);
+    return { componentId, fields: sharedFields(), fromSchema: false };
+  }
+}
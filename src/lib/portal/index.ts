@@ -0,0 +1,166 @@
+// Portal form filling: load the component's form, plan the values, type them in
+import type { Page } from "playwright";
+import { PortalFieldReport, PortalFieldValue } from "@/lib/types";
+import { PortalFillBody } from "@/lib/portal-fill";
+import { AGENCY_SECTION, loadPortalForm, PortalField, PortalForm } from "@/lib/portal/form";
+import { matchOption, planPortalFill, PortalFillStep } from "@/lib/portal/adapter";
+
+export type { PortalField, PortalForm } from "@/lib/portal/form";
+export type { PortalFillStep } from "@/lib/portal/adapter";
+export { loadPortalForm, normalizeFormFields } from "@/lib/portal/form";
+export { planPortalFill } from "@/lib/portal/adapter";
+
+export function portalUrl(componentId: string): string {
+  return `https://www.foia.gov/request/agency-component/${componentId}/`;
+}
+
+function sameText(a: string, b: string): boolean {
+  const normalize = (value: string) => value.replace(/\s+/g, " ").trim().toLowerCase();
+  return normalize(a) === normalize(b);
+}
+
+// DOM index and label of the select's option best matching the value, for
+// selects whose options the definition doesn't list
+async function findPageOption(
+  page: Page,
+  selector: string,
+  value: string
+): Promise<{ index: number; label: string } | null> {
+  const labels = await page.$eval(selector, (element) =>
+    Array.from((element as HTMLSelectElement).options).map((o) => o.text)
+  );
+  const index = matchOption(labels, value);
+  return index === null ? null : { index, label: labels[index] };
+}
+
+// Type or select the value, then read the field back to confirm it held
+async function applyStep(page: Page, step: PortalFillStep): Promise<PortalFieldReport> {
+  const selector = `#${step.field.id}`;
+  const report: PortalFieldReport = {
+    id: step.field.id,
+    label: step.field.title,
+    status: "filled",
+    expected: step.value,
+  };
+
+  if (step.rejected) {
+    return { ...report, status: "rejected", message: step.rejected };
+  }
+  if (!(await page.$(selector))) {
+    return { ...report, status: "missing" };
+  }
+
+  // The option label to expect back, when chosen from the page's own options
+  let pageLabel: string | undefined;
+  try {
+    if (step.action === "select") {
+      if (step.optionIndex !== undefined) {
+        await page.selectOption(selector, step.optionIndex);
+      } else {
+        const option = await findPageOption(page, selector, step.value);
+        if (!option) {
+          return { ...report, status: "rejected", message: `No option matches "${step.value}"` };
+        }
+        pageLabel = option.label;
+        await page.selectOption(selector, { index: option.index });
+      }
+      // Selects often reveal the fields that follow them
+      await page.waitForTimeout(300);
+    } else {
+      await page.fill(selector, step.value);
+    }
+  } catch (error) {
+    return {
+      ...report,
+      status: "rejected",
+      message: error instanceof Error ? error.message.split("\n")[0] : "The form refused the value",
+    };
+  }
+
+  try {
+    if (step.action === "select") {
+      const selected = await page.$eval(selector, (element) => {
+        const select = element as HTMLSelectElement;
+        const option = select.options[select.selectedIndex];
+        return { value: select.value, text: option ? option.text : "" };
+      });
+      const held =
+        step.optionIndex !== undefined
+          ? selected.value === step.optionIndex
+          : sameText(selected.text, pageLabel ?? step.value);
+      return held ? report : { ...report, status: "mismatch", actual: selected.text };
+    }
+
+    const actual = await page.inputValue(selector);
+    return sameText(actual, step.value) ? report : { ...report, status: "mismatch", actual };
+  } catch {
+    // Filled but gone when read back, e.g. hidden by a later select
+    return { ...report, status: "mismatch", message: "Could not read the field back" };
+  }
+}
+
+// Fill the form already open on the page and report on every field: the
+// planned ones, required ones there was nothing to fill with, and agency
+// questions left for the requester. The form
+// definition is loaded for the agency unless one is given.
+export async function fillPortalForm(
+  page: Page,
+  body: PortalFillBody,
+  definition?: PortalForm
+): Promise<{ form: PortalForm; report: PortalFieldReport[] }> {
+  const form = definition || (await loadPortalForm(body.agencyId));
+  const steps = planPortalFill(form, body);
+
+  const report: PortalFieldReport[] = [];
+  for (const step of steps) {
+    report.push(await applyStep(page, step));
+  }
+
+  // Agency questions are only answered when there's no doubt what they ask,
+  // so every one left over is the requester's to check, required or not
+  const planned = new Set(steps.map((s) => s.field.id));
+  for (const field of form.fields) {
+    const isAgencyField = field.section === AGENCY_SECTION;
+    if (
+      (field.required || isAgencyField) &&
+      !planned.has(field.id) &&
+      (await page.$(`#${field.id}`))
+    ) {
+      report.push({
+        id: field.id,
+        label: field.title,
+        status: "unanswered",
+        message: isAgencyField ? "Agency-specific question; answer it yourself" : undefined,
+      });
+    }
+  }
+  return { form, report };
+}
+
+// Current values of the form's fields that are on the page and not empty;
+// selects read as the chosen option's label
+export async function readFormValues(
+  page: Page,
+  fields: PortalField[]
+): Promise<PortalFieldValue[]> {
+  const values = await page.evaluate(
+    (ids) =>
+      ids.map((id) => {
+        const element = document.getElementById(id);
+        if (element instanceof HTMLSelectElement) {
+          return element.selectedIndex >= 0 && element.value !== ""
+            ? element.options[element.selectedIndex].text
+            : "";
+        }
+        if (element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement) {
+          return element.value;
+        }
+        return "";
+      }),
+    fields.map((f) => f.id)
+  );
+
+  return fields
+    .map((field, i) => ({ id: field.id, label: field.title, value: values[i].trim() }))
+    .filter((v) => v.value);
+}
@@ -0,0 +1,56 @@
+// Per-component corrections to the generic portal mapping
+//
+// Only a few agency-specific fields can be filled from their names alone (a
+// signature, today's date, the requester's own contact details). These answer
+// the rest of a component's questions, or point a field at the requester
+// detail it asks for.
+import { PortalField } from "@/lib/portal/form";
+
+// An option label for selects, text for everything else; null leaves the
+// field alone
+type OverrideValue = string | null;
+
+export interface PortalOverride {
+  values: Record<string, OverrideValue>;
+  // Agency fields that ask for a shared field's value, by shared field name
+  sharedAs?: Record<string, string>;
+  // Agency-specific fields to try when the form definition can't be loaded
+  fallbackFields?: Pick<PortalField, "name" | "type">[];
+}
+
+// FBI component ID
+export const FBI_ID = "e366935f-20e1-4404-ac40-ed5518a5ce5a";
+
+const OVERRIDES: Record<string, PortalOverride> = {
+  [FBI_ID]: {
+    values: {
+      // Domestic reveals the state select
+      fbi_address_type: "Domestic",
+      fbi_request_subject: "All Other Subjects",
+      fbi_requester_type: "Myself",
+      // Declaration under penalty of perjury
+      fbi_citizen_confirm: "Yes",
+      // The FBI form asks for the description in its own field
+      request_description: null,
+    },
+    sharedAs: {
+      // The state select is the requester's mailing address
+      fbi_state_domestic: "address_state_province",
+      fbi_request_description: "request_description",
+    },
+    fallbackFields: [
+      { name: "fbi_address_type", type: "select" },
+      { name: "fbi_state_domestic", type: "select" },
+      { name: "fbi_request_subject", type: "select" },
+      { name: "fbi_requester_type", type: "select" },
+      { name: "fbi_request_description", type: "textarea" },
+      { name: "fbi_citizen_confirm", type: "select" },
+      { name: "fbi_citizen_signature", type: "text" },
+      { name: "fbi_citizen_today", type: "text" },
+    ],
+  },
+};
+
+export function getPortalOverride(componentId: string): PortalOverride | null {
+  return OVERRIDES[componentId] || null;
+}
@@ -0,0 +1,336 @@
+// Headless portal sessions
+//
+// Each session is one browser filling one request's portal form. Once the
+// form is filled the session waits for the requester, who sees it through
+// screenshots in the app and forwards clicks and keys to finish the CAPTCHA
+// and press Submit. A watcher reads the form while it is on the page and
+// closes the session with a receipt once the confirmation page appears.
+// Sessions close after a stretch without input, and every ending is recorded
+// on the request.
+import { randomUUID } from "crypto";
+import { chromium, Browser, Page } from "playwright";
+import {
+  PortalFieldValue,
+  PortalInput,
+  PortalReceipt,
+  PortalSessionInfo,
+  PortalSessionStatus,
+} from "@/lib/types";
+import { PortalFillBody } from "@/lib/portal-fill";
+import { fillPortalForm, portalUrl, PortalField, readFormValues } from "@/lib/portal";
+import { captureReceipt, parseConfirmation } from "@/lib/portal/confirmation";
+import { updateRequest } from "@/lib/requests";
+
+// Idle time before an unattended session is closed
+export const PORTAL_SESSION_TIMEOUT = 10 * 60 * 1000; // 10 minutes
+
+const VIEWPORT = { width: 1280, height: 900 };
+
+// How often an open session checks for the confirmation page
+const WATCH_INTERVAL = 2000;
+
+// Most sessions open at once; each one is a whole Chromium
+export const MAX_PORTAL_SESSIONS = 3;
+
+const USER_AGENT =
+  "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36";
+
+interface PortalSession {
+  info: PortalSessionInfo;
+  browser: Browser;
+  page: Page;
+  fields: PortalField[];
+  // The form as last read, which after submission is what was filed
+  values: PortalFieldValue[];
+  timer?: ReturnType<typeof setTimeout>;
+  watcher?: ReturnType<typeof setInterval>;
+  isChecking?: boolean;
+}
+
+type EndStatus = Exclude<PortalSessionStatus, "filling" | "awaiting_user">;
+
+export class PortalSessionLimitError extends Error {
+  constructor() {
+    super(
+      `${MAX_PORTAL_SESSIONS} portal sessions are already open. Finish or cancel one, then try again.`
+    );
+    this.name = "PortalSessionLimitError";
+  }
+}
+
+// Kept on globalThis so sessions survive module reloads in development
+const globalForSessions = globalThis as unknown as {
+  portalSessions?: Map<string, PortalSession>;
+};
+const sessions = (globalForSessions.portalSessions ??= new Map());
+
+// Browsers being launched, which count toward the limit before their session
+// is registered
+let launching = 0;
+
+function isOpen(session: PortalSession): boolean {
+  return session.info.status === "filling" || session.info.status === "awaiting_user";
+}
+
+function touch(session: PortalSession) {
+  if (session.timer) clearTimeout(session.timer);
+  session.info.expiresAt = new Date(Date.now() + PORTAL_SESSION_TIMEOUT).toISOString();
+  session.timer = setTimeout(() => {
+    endPortalSession(session.info.id, "expired").catch((error) =>
+      console.error("Portal session expiry error:", error)
+    );
+  }, PORTAL_SESSION_TIMEOUT);
+}
+
+function recordOutcome(
+  requestId: string,
+  status: EndStatus,
+  message?: string,
+  receipt?: PortalReceipt
+) {
+  try {
+    updateRequest(requestId, {
+      ...(status === "submitted" ? { status: "submitted" } : {}),
+      portalOutcome: { status, at: new Date().toISOString(), message },
+      ...(receipt ? { portalReceipt: receipt } : {}),
+    });
+  } catch (error) {
+    console.error("Failed to record portal outcome:", error);
+  }
+}
+
+// Whether any of the filled fields is still on the page. Help text on the form
+// can read like a confirmation, so the page only counts as one once the form
+// is gone.
+async function isFormOnPage(session: PortalSession): Promise<boolean> {
+  if (session.fields.length === 0) {
+    return session.page.url().startsWith(portalUrl(session.info.agencyId));
+  }
+  return session.page.evaluate(
+    (ids) => ids.some((id) => document.getElementById(id) !== null),
+    session.fields.map((f) => f.id)
+  );
+}
+
+// Confirmation number on the page, once the form has been replaced by a
+// confirmation page
+async function findConfirmation(session: PortalSession) {
+  if (await isFormOnPage(session)) {
+    return null;
+  }
+  return parseConfirmation(await session.page.innerText("body"));
+}
+
+// Read the form while it is still there, or end the session once the
+// confirmation page has replaced it
+async function checkSession(session: PortalSession) {
+  if (session.isChecking || session.info.status !== "awaiting_user") return;
+  session.isChecking = true;
+  try {
+    const confirmation = await findConfirmation(session);
+    if (confirmation) {
+      session.info.confirmationNumber = confirmation.confirmationNumber;
+      await endPortalSession(session.info.id, "submitted");
+      return;
+    }
+    const values = await readFormValues(session.page, session.fields);
+    if (values.length > 0) {
+      session.values = values;
+    }
+  } catch (error) {
+    // The page is often mid-navigation right after Submit; try again next tick
+    console.log("Portal session check skipped:", error instanceof Error ? error.message : error);
+  } finally {
+    session.isChecking = false;
+  }
+}
+
+export function isPortalSessionLimitReached(): boolean {
+  const open = [...sessions.values()].filter(isOpen).length;
+  return open + launching >= MAX_PORTAL_SESSIONS;
+}
+
+export function getPortalSession(id: string): PortalSessionInfo | null {
+  return sessions.get(id)?.info || null;
+}
+
+// Launch a headless browser and fill the form; resolves once the form is
+// ready for the requester
+export async function startPortalSession(
+  body: PortalFillBody,
+  requestId?: string
+): Promise<PortalSessionInfo> {
+  if (isPortalSessionLimitReached()) {
+    const error = new PortalSessionLimitError();
+    if (requestId) {
+      recordOutcome(requestId, "failed", error.message);
+    }
+    throw error;
+  }
+
+  launching++;
+  let browser: Browser | undefined;
+  let page: Page;
+  try {
+    browser = await chromium.launch({ headless: true });
+    const context = await browser.newContext({ viewport: VIEWPORT, userAgent: USER_AGENT });
+    page = await context.newPage();
+  } catch (error) {
+    // A browser that launched but couldn't open a page would otherwise be
+    // left running with no session to close it
+    await browser?.close().catch((closeError) =>
+      console.error("Failed to close portal browser:", closeError)
+    );
+    if (requestId) {
+      recordOutcome(requestId, "failed", "Could not start a browser");
+    }
+    throw error;
+  } finally {
+    launching--;
+  }
+
+  const session: PortalSession = {
+    info: {
+      id: randomUUID(),
+      agencyId: body.agencyId,
+      requestId,
+      status: "filling",
+      message: "Filling the portal form...",
+      expiresAt: "",
+      viewport: VIEWPORT,
+    },
+    browser,
+    page,
+    fields: [],
+    values: [],
+  };
+  sessions.set(session.info.id, session);
+  touch(session);
+
+  try {
+    await page.goto(portalUrl(body.agencyId), { waitUntil: "networkidle", timeout: 30000 });
+    // Wait for the form to render
+    await page.waitForTimeout(2000);
+
+    const { form, report } = await fillPortalForm(page, body);
+    session.fields = form.fields;
+    session.values = await readFormValues(page, form.fields);
+    session.info.report = report;
+
+    const problems = report.filter((r) => r.status !== "filled").length;
+    session.info.status = "awaiting_user";
+    session.info.message =
+      problems > 0
+        ? `Form filled, but ${problems} ${problems === 1 ? "field needs" : "fields need"} checking. Complete ${problems === 1 ? "it" : "them"}, the CAPTCHA, then click Submit.`
+        : "Form filled. Complete the CAPTCHA and click Submit.";
+    session.watcher = setInterval(() => checkSession(session), WATCH_INTERVAL);
+  } catch (error) {
+    console.error("Portal fill error:", error);
+    await endPortalSession(
+      session.info.id,
+      "failed",
+      error instanceof Error ? error.message : "Failed to fill the portal form"
+    );
+  }
+
+  return session.info;
+}
+
+export async function screenshotPortalSession(id: string): Promise<Buffer | null> {
+  const session = sessions.get(id);
+  if (!session || !isOpen(session)) {
+    return null;
+  }
+  return session.page.screenshot({ type: "jpeg", quality: 70 });
+}
+
+export async function sendPortalInput(id: string, input: PortalInput): Promise<boolean> {
+  const session = sessions.get(id);
+  if (!session || session.info.status !== "awaiting_user") {
+    return false;
+  }
+
+  const { page } = session;
+  switch (input.type) {
+    case "click":
+      await page.mouse.click(input.x, input.y);
+      break;
+    case "type":
+      await page.keyboard.type(input.text);
+      break;
+    case "press":
+      await page.keyboard.press(input.key);
+      break;
+    case "scroll":
+      await page.mouse.wheel(0, input.deltaY);
+      break;
+  }
+  touch(session);
+  return true;
+}
+
+// Close the browser and record how the session ended. Sessions that already
+// ended are returned unchanged.
+export async function endPortalSession(
+  id: string,
+  status: EndStatus,
+  message?: string
+): Promise<PortalSessionInfo | null> {
+  const session = sessions.get(id);
+  if (!session) {
+    return null;
+  }
+  if (!isOpen(session)) {
+    return session.info;
+  }
+
+  if (session.timer) clearTimeout(session.timer);
+  if (session.watcher) clearInterval(session.watcher);
+  session.info.status = status;
+
+  // Whatever is on screen when the requester says they submitted is the
+  // best receipt there is, even without a recognised confirmation page
+  let receipt: PortalReceipt | undefined;
+  if (status === "submitted" && session.info.requestId) {
+    try {
+      if (!session.info.confirmationNumber) {
+        session.info.confirmationNumber = (await findConfirmation(session))?.confirmationNumber;
+      }
+      receipt = await captureReceipt(
+        session.page,
+        session.info.requestId,
+        session.values,
+        session.info.confirmationNumber
+      );
+    } catch (error) {
+      console.error("Failed to capture portal receipt:", error);
+    }
+  }
+
+  session.info.message =
+    message ||
+    (session.info.confirmationNumber
+      ? `${ENDING_MESSAGES.submitted} Confirmation number: ${session.info.confirmationNumber}.`
+      : ENDING_MESSAGES[status]);
+
+  try {
+    await session.browser.close();
+  } catch (error) {
+    console.error("Failed to close portal browser:", error);
+  }
+
+  if (session.info.requestId) {
+    recordOutcome(session.info.requestId, status, message, receipt);
+  }
+
+  // Keep the ended session briefly so the live view can read its outcome
+  setTimeout(() => sessions.delete(id), 60 * 1000);
+  return session.info;
+}
+
+const ENDING_MESSAGES: Record<EndStatus, string> = {
+  submitted: "Request submitted through the portal.",
+  cancelled: "Portal session cancelled.",
+  expired: "The portal session timed out. Start again to refill the form.",
+  failed: "Could not fill the portal form.",
+};
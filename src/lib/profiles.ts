@@ -0,0 +1,64 @@
+// Server-side store of saved requester profiles
+import { randomUUID } from "crypto";
+import { NewRequesterProfile, RequesterProfile } from "@/lib/types";
+import { readCollection, writeCollection } from "@/lib/store";
+
+const COLLECTION = "profiles";
+
+export function listProfiles(): RequesterProfile[] {
+  return readCollection<RequesterProfile>(COLLECTION).sort((a, b) =>
+    a.name.localeCompare(b.name)
+  );
+}
+
+export function getProfile(id: string): RequesterProfile | null {
+  return readCollection<RequesterProfile>(COLLECTION).find((p) => p.id === id) || null;
+}
+
+export function createProfile(input: NewRequesterProfile): RequesterProfile {
+  const now = new Date().toISOString();
+  const profile: RequesterProfile = {
+    ...input,
+    id: randomUUID(),
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  const profiles = readCollection<RequesterProfile>(COLLECTION);
+  profiles.push(profile);
+  writeCollection(COLLECTION, profiles);
+
+  return profile;
+}
+
+export function updateProfile(
+  id: string,
+  update: Partial<NewRequesterProfile>
+): RequesterProfile | null {
+  const profiles = readCollection<RequesterProfile>(COLLECTION);
+  const index = profiles.findIndex((p) => p.id === id);
+  if (index === -1) {
+    return null;
+  }
+
+  const updated: RequesterProfile = {
+    ...profiles[index],
+    ...update,
+    id,
+    updatedAt: new Date().toISOString(),
+  };
+  profiles[index] = updated;
+  writeCollection(COLLECTION, profiles);
+
+  return updated;
+}
+
+export function deleteProfile(id: string): boolean {
+  const profiles = readCollection<RequesterProfile>(COLLECTION);
+  const remaining = profiles.filter((p) => p.id !== id);
+  if (remaining.length === profiles.length) {
+    return false;
+  }
+  writeCollection(COLLECTION, remaining);
+  return true;
+}
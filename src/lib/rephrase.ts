@@ -0,0 +1,337 @@
+// Rephrase an informal query into a formal FOIA request
+// The model answers through a tool call so the result always matches
+// RephraseResponse; invalid input is sent back once for correction.
+import Anthropic from "@anthropic-ai/sdk";
+import {
+  AgencySuggestion,
+  ClarifyingAnswer,
+  ClarifyingQuestion,
+  DateRange,
+  RephraseResult,
+  RephraseResponse,
+  SuggestionConfidence,
+} from "@/lib/types";
+import { getAnthropicClient, ANTHROPIC_MODEL } from "@/lib/anthropic";
+import { allAgencies, resolveAgency } from "@/lib/agencies";
+
+const SYSTEM_PROMPT = `You are an expert at crafting Freedom of Information Act (FOIA) requests. Your job is to take a user's informal query about what information they want from the government and transform it into a proper, legally-sound FOIA request.
+
+When rephrasing a request, you should:
+1. Use formal, precise legal language appropriate for FOIA requests
+2. Clearly specify the types of records being requested (documents, emails, reports, memos, etc.)
+3. Include reasonable date ranges when applicable
+4. Be specific enough to be actionable but not so narrow as to miss relevant records
+5. Reference the Freedom of Information Act, 5 U.S.C. § 552
+
+Also identify the agency components most likely to hold these records, best match first. Records about one topic often sit with two or three components, so suggest up to three when more than one is plausible. Choose components only from the catalog below, copying each component name and parent agency exactly as listed, and give a one-line rationale and a confidence for each.
+
+If the query is too vague to describe the records reasonably - for example it has no identifiable subject, no timeframe and no kind of record - do not guess. Call ask_clarifying_questions with up to three short questions instead. Otherwise record your answer with the record_foia_request tool.`;
+
+// Every component we can route a request to, one per line as
+// "Component name (ABBR) | Parent agency"
+const AGENCY_CATALOG = `AGENCY CATALOG:
+${allAgencies
+  .map((a) => `${a.name}${a.abbreviation ? ` (${a.abbreviation})` : ""} | ${a.agency.name}`)
+  .join("\n")}`;
+
+const CONFIDENCE_LEVELS: SuggestionConfidence[] = ["high", "medium", "low"];
+const MAX_SUGGESTIONS = 3;
+
+const REPHRASE_TOOL = {
+  name: "record_foia_request",
+  description: "Record the formal FOIA request drafted from the user's query",
+  input_schema: {
+    type: "object" as const,
+    properties: {
+      rephrased: { type: "string", description: "The formal FOIA request text" },
+      agencies: {
+        type: "array",
+        description: "Components most likely to hold the records, best match first",
+        items: {
+          type: "object",
+          properties: {
+            component: {
+              type: "string",
+              description: "Component name exactly as listed in the catalog",
+            },
+            parentAgency: {
+              type: "string",
+              description: "Parent agency exactly as listed in the catalog",
+            },
+            rationale: {
+              type: "string",
+              description: "One line on why this component holds the records",
+            },
+            confidence: { type: "string", enum: CONFIDENCE_LEVELS },
+          },
+          required: ["component", "parentAgency", "rationale", "confidence"],
+        },
+      },
+      dateRange: {
+        type: "object",
+        description: "Period the requested records cover, if one applies",
+        properties: {
+          start: { type: "string", description: "First day, as YYYY-MM-DD" },
+          end: { type: "string", description: "Last day, as YYYY-MM-DD" },
+        },
+      },
+      recordTypes: {
+        type: "array",
+        items: { type: "string" },
+        description: 'Kinds of records requested, e.g. "emails" or "contracts"',
+      },
+      briefDescription: {
+        type: "string",
+        description: "A short (under 10 words) description for the email subject line",
+      },
+    },
+    required: ["rephrased", "agencies", "recordTypes", "briefDescription"],
+  },
+};
+
+const MAX_QUESTIONS = 3;
+
+const CLARIFY_TOOL = {
+  name: "ask_clarifying_questions",
+  description: "Ask the user what is needed to describe the records reasonably",
+  input_schema: {
+    type: "object" as const,
+    properties: {
+      questions: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            question: { type: "string", description: "A short question for the user" },
+            why: {
+              type: "string",
+              description: "One line on how the answer will make the request actionable",
+            },
+          },
+          required: ["question", "why"],
+        },
+      },
+    },
+    required: ["questions"],
+  },
+};
+
+export class RephraseValidationError extends Error {
+  constructor(public errors: string[]) {
+    super(`Invalid rephrase response: ${errors.join("; ")}`);
+    this.name = "RephraseValidationError";
+  }
+}
+
+type ValidationResult =
+  | { value: Omit<RephraseResponse, "original">; errors?: undefined }
+  | { value?: undefined; errors: string[] };
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0;
+}
+
+function validateDateRange(input: unknown, errors: string[]): DateRange | undefined {
+  if (input === undefined || input === null) {
+    return undefined;
+  }
+  if (typeof input !== "object") {
+    errors.push("dateRange must be an object");
+    return undefined;
+  }
+
+  const range: DateRange = {};
+  for (const key of ["start", "end"] as const) {
+    const value = (input as Record<string, unknown>)[key];
+    if (value === undefined || value === "") continue;
+    if (typeof value !== "string" || !ISO_DATE.test(value) || isNaN(Date.parse(value))) {
+      errors.push(`dateRange.${key} must be a date in YYYY-MM-DD format`);
+    } else {
+      range[key] = value;
+    }
+  }
+
+  if (range.start && range.end && range.start > range.end) {
+    errors.push("dateRange.start must not be after dateRange.end");
+  }
+  return range.start || range.end ? range : undefined;
+}
+
+function validateAgencies(input: unknown, errors: string[]): AgencySuggestion[] {
+  if (!Array.isArray(input) || input.length === 0) {
+    errors.push("agencies must be a non-empty array");
+    return [];
+  }
+
+  const suggestions: AgencySuggestion[] = [];
+  const unresolved: string[] = [];
+  input.forEach((item, i) => {
+    const { component, parentAgency, rationale, confidence } = (item || {}) as Record<
+      string,
+      unknown
+    >;
+    if (!isNonEmptyString(component) || !isNonEmptyString(rationale)) {
+      errors.push(`agencies[${i}] must have a component and a rationale`);
+      return;
+    }
+    const level = CONFIDENCE_LEVELS.find((c) => c === confidence);
+    if (!level) {
+      errors.push(`agencies[${i}].confidence must be one of ${CONFIDENCE_LEVELS.join(", ")}`);
+      return;
+    }
+    const match = resolveAgency(
+      component,
+      typeof parentAgency === "string" ? parentAgency : undefined
+    );
+    if (!match) {
+      // Dropped rather than failing the draft, as long as another suggestion resolves
+      unresolved.push(component);
+      return;
+    }
+    if (!suggestions.some((s) => s.componentId === match.id)) {
+      suggestions.push({ componentId: match.id, rationale: rationale.trim(), confidence: level });
+    }
+  });
+
+  if (suggestions.length === 0 && unresolved.length > 0) {
+    errors.push(
+      `None of the agencies are in the agency catalog: ${unresolved.map((c) => `"${c}"`).join(", ")}`
+    );
+  } else if (unresolved.length > 0) {
+    console.log("Dropped agency suggestions not in the catalog:", unresolved.join(", "));
+  }
+  return suggestions.slice(0, MAX_SUGGESTIONS);
+}
+
+export function validateRephrase(input: Record<string, unknown>): ValidationResult {
+  const errors: string[] = [];
+
+  if (!isNonEmptyString(input.rephrased)) {
+    errors.push("rephrased must be a non-empty string");
+  }
+  if (!isNonEmptyString(input.briefDescription)) {
+    errors.push("briefDescription must be a non-empty string");
+  }
+  const suggestedAgencies = validateAgencies(input.agencies, errors);
+  if (!Array.isArray(input.recordTypes) || !input.recordTypes.every(isNonEmptyString)) {
+    errors.push("recordTypes must be an array of non-empty strings");
+  }
+  const dateRange = validateDateRange(input.dateRange, errors);
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  return {
+    value: {
+      rephrased: (input.rephrased as string).trim(),
+      suggestedAgencies,
+      dateRange,
+      recordTypes: (input.recordTypes as string[]).map((t) => t.trim()),
+      briefDescription: (input.briefDescription as string).trim(),
+    },
+  };
+}
+
+export function validateQuestions(
+  input: Record<string, unknown>
+): { value: ClarifyingQuestion[]; errors?: undefined } | { value?: undefined; errors: string[] } {
+  const { questions } = input;
+  if (
+    !Array.isArray(questions) ||
+    questions.length === 0 ||
+    questions.length > MAX_QUESTIONS ||
+    !questions.every((q) => isNonEmptyString(q?.question) && isNonEmptyString(q?.why))
+  ) {
+    return {
+      errors: [`questions must be 1 to ${MAX_QUESTIONS} items, each with a question and why`],
+    };
+  }
+  return {
+    value: questions.map((q) => ({ question: q.question.trim(), why: q.why.trim() })),
+  };
+}
+
+function buildPrompt(query: string, answers?: ClarifyingAnswer[]): string {
+  const prompt = `Please rephrase the following informal request into a proper FOIA request and identify the agencies likely to hold the records:\n\n"${query}"`;
+  const answered = (answers || []).filter((a) => a.answer.trim());
+  if (answered.length === 0) {
+    return prompt;
+  }
+  return `${prompt}
+
+The user answered these clarifying questions:
+${answered.map((a) => `Q: ${a.question}\nA: ${a.answer.trim()}`).join("\n\n")}`;
+}
+
+// Drafts the request, or asks clarifying questions when the query is too vague.
+// Once answers are supplied (even an empty list, when the user skips the
+// questions) the model must draft.
+export async function rephraseQuery(
+  query: string,
+  answers?: ClarifyingAnswer[]
+): Promise<RephraseResult> {
+  const anthropic = getAnthropicClient();
+  const mayClarify = answers === undefined;
+  const messages: Anthropic.MessageParam[] = [
+    { role: "user", content: buildPrompt(query, answers) },
+  ];
+
+  let errors: string[] = [];
+
+  // One initial attempt plus one retry with the validation errors attached
+  for (let attempt = 0; attempt < 2; attempt++) {
+    const message = await anthropic.messages.create({
+      model: ANTHROPIC_MODEL,
+      max_tokens: 1024,
+      // The catalog is identical on every call, so let the API cache it
+      system: [
+        { type: "text", text: SYSTEM_PROMPT },
+        { type: "text", text: AGENCY_CATALOG, cache_control: { type: "ephemeral" } },
+      ],
+      tools: mayClarify ? [REPHRASE_TOOL, CLARIFY_TOOL] : [REPHRASE_TOOL],
+      tool_choice: mayClarify ? { type: "any" } : { type: "tool", name: REPHRASE_TOOL.name },
+      messages,
+    });
+
+    const toolUse = message.content.find((block) => block.type === "tool_use");
+    if (!toolUse || toolUse.type !== "tool_use") {
+      errors = ["Response did not call a tool"];
+      continue;
+    }
+
+    const input = toolUse.input as Record<string, unknown>;
+    if (toolUse.name === CLARIFY_TOOL.name) {
+      const result = validateQuestions(input);
+      if (result.value) {
+        return { original: query, clarifyingQuestions: result.value };
+      }
+      errors = result.errors;
+    } else {
+      const result = validateRephrase(input);
+      if (result.value) {
+        return { original: query, ...result.value };
+      }
+      errors = result.errors;
+    }
+
+    messages.push(
+      { role: "assistant", content: message.content },
+      {
+        role: "user",
+        content: [
+          {
+            type: "tool_result",
+            tool_use_id: toolUse.id,
+            is_error: true,
+            content: `The tool input was invalid:\n${errors.join("\n")}\nPlease call ${toolUse.name} again with these fixed.`,
+          },
+        ],
+      }
+    );
+  }
+
+  throw new RephraseValidationError(errors);
+}
@@ -0,0 +1,236 @@
+// Checks for the problems agencies most often push back on in FOIA request
+// text, each with a one-click fix where one makes sense
+import { DateRange } from "@/lib/types";
+import { allAgencies } from "@/lib/agencies";
+
+export type LintRule =
+  | "dateRange"
+  | "recordTypes"
+  | "questions"
+  | "overbroad"
+  | "privateIndividuals"
+  | "emailSearchTerms"
+  | "placeholders";
+
+export interface LintFix {
+  label: string;
+  apply: (text: string) => string;
+}
+
+export interface LintFinding {
+  rule: LintRule;
+  message: string;
+  fix?: LintFix;
+  // Must be resolved before the request is sent
+  blocking?: boolean;
+}
+
+export interface LintContext {
+  dateRange?: DateRange;
+}
+
+const MONTHS =
+  "January|February|March|April|May|June|July|August|September|October|November|December";
+
+const DATE_PATTERNS = [
+  new RegExp(`\\b(${MONTHS})\\b`, "i"),
+  /\b(19|20)\d{2}\b/,
+  /\b\d{1,2}\/\d{1,2}\/\d{2,4}\b/,
+  /\b(from|since|between|through|until|prior to|after|before)\b.*\b(date|present|today)\b/i,
+];
+
+const RECORD_TYPE_PATTERN =
+  /\b(e-?mails?|memo(randa|randum|s)?|reports?|correspondence|letters?|contracts?|invoices?|minutes|calendars?|text messages|briefings?|presentations?|spreadsheets?|policies|guidance|directives?|photographs?|videos?|recordings?|logs?|files?|notes|agreements?)\b/i;
+
+const OVERBROAD_PATTERN =
+  /\b(any and all|all) (documents|records|information|materials|files)( (relating|related|pertaining|referring) to| (about|regarding|concerning))?/gi;
+
+const QUESTION_PATTERN = /[^.!?\n]*\?/g;
+
+const EMAIL_PATTERN = /\be-?mails?\b/i;
+// Quoted text counts as search terms, unless it is still a [placeholder]
+const SEARCH_TERMS_PATTERN = /\b(search terms?|keywords?|key words)\b|"(?!\s*\[[^\]"]*\]\s*")[^"]+"/i;
+
+// Bracketed text left for the requester to fill in, such as "[term 1]";
+// editorial [sic] is fine
+const PLACEHOLDER_PATTERN = /\[(?!sic\])[^\]\n]+\]/gi;
+
+// Capitalised words that belong to organisation names, companies, places and
+// legal terms, not people
+const NOT_NAMES = new Set(
+  `Corp Corporation Inc Incorporated LLC Ltd Co Company Companies Group Holdings Partners Associates Foundation Association Institute University College School Center Centre Hospital Bank Trust Fund Project Program Church San Santa Los Las El La New Fort Saint St Mount North South East West Northern Southern Eastern Western Lake Port Bay Beach Valley Park Island City Town Village Airport Base Camp Road Avenue Act Administration Agency Air Army Attorney Bureau Central Coast Command Commission Committee Congress Council County Court Defense Department Director District Division Drug Energy Environmental Executive Federal Force Freedom General Guard Health House Homeland Human Information Inspector Intelligence Internal Investigation Justice Marine National Navy Office Pentagon President Protection Public Records Revenue Secretary Security Senate Service Services State States Street Treasury United White ${MONTHS.split("|").join(" ")} Monday Tuesday Wednesday Thursday Friday Saturday Sunday Dear Pursuant Sincerely`.split(
+    " "
+  )
+);
+
+const PRIVACY_STATEMENT_PATTERN = /\b(privacy waiver|proof of death|consent)\b/i;
+
+// Runs of capitalised words, allowing a middle initial. A person's name is a
+// run of exactly two words; longer runs are organisations and titles.
+const CAPITALISED_RUN =
+  /\b[A-Z][a-z]+(?:-[A-Z][a-z]+)?(?:\s+(?:[A-Z]\.\s+)?[A-Z][a-z]+(?:-[A-Z][a-z]+)?)*/g;
+
+// Words after which a capitalised pair is the tail of a longer name, as in
+// "Department of Homeland Security". "and" joins a name's words after a single
+// capitalised word ("Immigration and Customs Enforcement"), but separates two
+// people ("John Smith and Mary Jones").
+const NAME_TAIL_PATTERN = /\b(of|in|the|for|at|on)\s+$/i;
+const JOINED_NAME_PATTERN = /(?:^|[^A-Za-z\s]\s*|\b[a-z]\S*\s+)[A-Z][a-z]+\s+and\s+$/;
+
+let agencyNames: string | undefined;
+
+function isInAgencyName(words: string): boolean {
+  agencyNames ??= allAgencies.map((a) => `${a.name} ${a.agency.name}`).join("\n");
+  return agencyNames.includes(words);
+}
+
+function appendSentence(text: string, sentence: string): string {
+  return `${text.trimEnd()}\n\n${sentence}`;
+}
+
+function formatRangeDate(iso: string): string {
+  return new Date(`${iso}T00:00:00Z`).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+function dateRangeSentence(range?: DateRange): string {
+  if (range?.start || range?.end) {
+    const start = range.start ? formatRangeDate(range.start) : "the earliest available date";
+    const end = range.end ? formatRangeDate(range.end) : "the date of the search";
+    return `This request is limited to records created from ${start} through ${end}.`;
+  }
+  const start = new Date().getFullYear() - 2;
+  return `This request is limited to records created from January 1, ${start} through the date of the search.`;
+}
+
+export function findPossibleNames(text: string): string[] {
+  const names = new Set<string>();
+  for (const match of text.matchAll(CAPITALISED_RUN)) {
+    const words = match[0].split(/\s+/).filter((w) => !/^[A-Z]\.$/.test(w));
+    if (
+      words.length !== 2 ||
+      words.some((w) => NOT_NAMES.has(w)) ||
+      NAME_TAIL_PATTERN.test(text.slice(0, match.index)) ||
+      JOINED_NAME_PATTERN.test(text.slice(0, match.index)) ||
+      isInAgencyName(words.join(" "))
+    ) {
+      continue;
+    }
+    names.add(match[0]);
+  }
+  return [...names];
+}
+
+export function lintRequest(text: string, context: LintContext = {}): LintFinding[] {
+  const findings: LintFinding[] = [];
+  if (!text.trim()) {
+    return findings;
+  }
+
+  if (!DATE_PATTERNS.some((p) => p.test(text))) {
+    findings.push({
+      rule: "dateRange",
+      message:
+        "No date range. Agencies search faster, and charge less, when the time period is stated.",
+      fix: {
+        label: "Add a date range",
+        apply: (t) => appendSentence(t, dateRangeSentence(context.dateRange)),
+      },
+    });
+  }
+
+  if (!RECORD_TYPE_PATTERN.test(text)) {
+    findings.push({
+      rule: "recordTypes",
+      message: "No record types. Say what kinds of records you want, such as emails or reports.",
+      fix: {
+        label: "List common record types",
+        apply: (t) =>
+          appendSentence(
+            t,
+            "This request includes, but is not limited to, emails, memoranda, reports, briefing materials and correspondence."
+          ),
+      },
+    });
+  }
+
+  if (/\?/.test(text)) {
+    findings.push({
+      rule: "questions",
+      message:
+        "Phrased as a question. FOIA gives access to existing records; agencies don't have to answer questions.",
+      fix: {
+        label: "Ask for records instead",
+        apply: (t) =>
+          t.replace(QUESTION_PATTERN, (question) => {
+            const leading = question.match(/^\s*/)?.[0] || "";
+            const body = question.trim().replace(/\?$/, "");
+            if (!body) return question;
+            return `${leading}Records addressing the following matter: ${body.charAt(0).toLowerCase()}${body.slice(1)}.`;
+          }),
+      },
+    });
+  }
+
+  if (new RegExp(OVERBROAD_PATTERN.source, "i").test(text)) {
+    findings.push({
+      rule: "overbroad",
+      message:
+        "\"All documents\" language is often rejected as not reasonably described. Name the records instead.",
+      fix: {
+        label: "Use narrower wording",
+        apply: (t) =>
+          t.replace(OVERBROAD_PATTERN, (...match) =>
+            match[3] ? "records concerning" : "records"
+          ),
+      },
+    });
+  }
+
+  const names = findPossibleNames(text);
+  if (names.length > 0 && !PRIVACY_STATEMENT_PATTERN.test(text)) {
+    findings.push({
+      rule: "privateIndividuals",
+      message: `Names a person (${names.join(", ")}). Records about private individuals are usually withheld under exemptions (b)(6) and (b)(7)(C) without their consent or proof of death.`,
+      fix: {
+        label: "Add a privacy statement",
+        apply: (t) =>
+          appendSentence(
+            t,
+            "Where records concern a private individual, I will provide a signed privacy waiver or proof of death on request. Otherwise, please release the records with personal identifying information redacted."
+          ),
+      },
+    });
+  }
+
+  if (EMAIL_PATTERN.test(text) && !SEARCH_TERMS_PATTERN.test(text)) {
+    findings.push({
+      rule: "emailSearchTerms",
+      message:
+        "Asks for emails without search terms. Most agencies require keywords and custodians for email searches.",
+      fix: {
+        label: "Add search terms",
+        apply: (t) =>
+          appendSentence(
+            t,
+            'For emails, please search the accounts of the relevant officials using the following search terms: "[term 1]", "[term 2]".'
+          ),
+      },
+    });
+  }
+
+  const placeholders = [...new Set(text.match(PLACEHOLDER_PATTERN) || [])];
+  if (placeholders.length > 0) {
+    findings.push({
+      rule: "placeholders",
+      message: `Still has placeholder text (${placeholders.join(", ")}). Replace it with the real details before sending.`,
+      blocking: true,
+    });
+  }
+
+  return findings;
+}
@@ -0,0 +1,39 @@
+import { RequestStatus } from "@/lib/types";
+
+export const REQUEST_STATUSES: RequestStatus[] = [
+  "draft",
+  "submitted",
+  "acknowledged",
+  "pending",
+  "completed",
+  "rejected",
+];
+
+export function isRequestStatus(value: unknown): value is RequestStatus {
+  return REQUEST_STATUSES.includes(value as RequestStatus);
+}
+
+// Statuses only move forward when set automatically; an acknowledgement
+// arriving after a final response must not reopen the request
+export function isStatusAdvance(current: RequestStatus, next: RequestStatus): boolean {
+  return REQUEST_STATUSES.indexOf(next) > REQUEST_STATUSES.indexOf(current);
+}
+
+export const STATUS_LABELS: Record<RequestStatus, string> = {
+  draft: "Draft",
+  submitted: "Submitted",
+  acknowledged: "Acknowledged",
+  pending: "Pending",
+  completed: "Completed",
+  rejected: "Rejected",
+};
+
+// Tailwind classes for the status badge on the dashboard
+export const STATUS_STYLES: Record<RequestStatus, string> = {
+  draft: "bg-gray-600 text-gray-200",
+  submitted: "bg-blue-900/50 text-blue-300",
+  acknowledged: "bg-indigo-900/50 text-indigo-300",
+  pending: "bg-yellow-900/50 text-yellow-300",
+  completed: "bg-green-900/50 text-green-300",
+  rejected: "bg-red-900/50 text-red-300",
+};
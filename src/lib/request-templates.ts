@@ -0,0 +1,193 @@
+// Reusable request templates with typed {{placeholders}}, and filling them in
+import {
+  DateRange,
+  NewRequestTemplate,
+  RequestTemplate,
+  TemplateMode,
+  TemplateValues,
+  TemplateVariable,
+  TemplateVariableType,
+} from "@/lib/types";
+
+export const TEMPLATE_VARIABLE_TYPES: { id: TemplateVariableType; label: string }[] = [
+  { id: "text", label: "Text" },
+  { id: "name", label: "Name" },
+  { id: "keywords", label: "Keywords" },
+  { id: "dateRange", label: "Date range" },
+];
+
+export const TEMPLATE_MODES: { id: TemplateMode; label: string; description: string }[] = [
+  {
+    id: "direct",
+    label: "Use as written",
+    description: "The filled-in text is the request; the drafting step is skipped.",
+  },
+  {
+    id: "seed",
+    label: "Draft from it",
+    description: "The filled-in text is drafted into a request, with agencies suggested.",
+  },
+];
+
+export const BUILT_IN_TEMPLATES: RequestTemplate[] = [
+  {
+    id: "builtin-vendor-contracts",
+    name: "Contracts with a vendor",
+    description: "Contracts, task orders and invoices with one company",
+    mode: "direct",
+    text: "Copies of contracts, task orders, contract modifications, statements of work and invoices between this agency and {{vendor}}, covering {{period}}.",
+    briefDescription: "Contracts with {{vendor}}",
+    variables: [
+      { key: "vendor", label: "Vendor", type: "name" },
+      { key: "period", label: "Period", type: "dateRange" },
+    ],
+    recordTypes: ["contracts", "task orders", "invoices"],
+    builtIn: true,
+  },
+  {
+    id: "builtin-official-emails",
+    name: "Emails between officials",
+    description: "Emails between two officials that mention given terms",
+    mode: "direct",
+    text: "Emails sent between {{officialA}} and {{officialB}}, including messages on which either was copied, covering {{period}}, that contain any of the following search terms: {{terms}}.",
+    briefDescription: "Emails between {{officialA}} and {{officialB}}",
+    variables: [
+      { key: "officialA", label: "First official", type: "name" },
+      { key: "officialB", label: "Second official", type: "name" },
+      { key: "period", label: "Period", type: "dateRange" },
+      { key: "terms", label: "Search terms", type: "keywords" },
+    ],
+    recordTypes: ["emails"],
+    builtIn: true,
+  },
+  {
+    id: "builtin-facility-inspections",
+    name: "Inspection reports for a facility",
+    description: "Inspections, violations and enforcement at one site",
+    mode: "seed",
+    text: "Inspection reports, violation notices and enforcement correspondence for {{facility}} during {{period}}.",
+    briefDescription: "Inspection records for {{facility}}",
+    variables: [
+      { key: "facility", label: "Facility name and address", type: "text" },
+      { key: "period", label: "Period", type: "dateRange" },
+    ],
+    recordTypes: ["inspection reports", "violation notices", "correspondence"],
+    builtIn: true,
+  },
+];
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z][A-Za-z0-9_]*)\s*\}\}/g;
+
+// Keys of every {{placeholder}} in the text, in order of first use
+export function findPlaceholders(text: string): string[] {
+  return [...new Set([...text.matchAll(PLACEHOLDER_PATTERN)].map((m) => m[1]))];
+}
+
+// "officialA" -> "Official a", for variables found in a saved request
+export function labelForKey(key: string): string {
+  const words = key.replace(/_/g, " ").replace(/([a-z])([A-Z])/g, "$1 $2").toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function formatDate(iso: string): string {
+  return new Date(`${iso}T00:00:00Z`).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+function describeDateRange(range: DateRange): string {
+  const start = range.start ? formatDate(range.start) : "the earliest available date";
+  const end = range.end ? formatDate(range.end) : "the date of the search";
+  return `the period from ${start} through ${end}`;
+}
+
+function describeKeywords(value: string): string {
+  const terms = value
+    .split(/[,\n]/)
+    .map((t) => t.trim().replace(/^"|"$/g, ""))
+    .filter(Boolean)
+    .map((t) => `"${t}"`);
+  return terms.length > 1
+    ? `${terms.slice(0, -1).join(", ")} and ${terms[terms.length - 1]}`
+    : terms.join("");
+}
+
+function formatValue(variable: TemplateVariable, value: string | DateRange | undefined): string {
+  if (variable.type === "dateRange") {
+    return describeDateRange(typeof value === "object" ? value : {});
+  }
+  const text = typeof value === "string" ? value.trim() : "";
+  return variable.type === "keywords" ? describeKeywords(text) : text;
+}
+
+// Names of variables the user still has to fill in
+export function missingValues(template: RequestTemplate, values: TemplateValues): string[] {
+  return template.variables
+    .filter((v) => {
+      const value = values[v.key];
+      return v.type === "dateRange"
+        ? typeof value !== "object" || (!value.start && !value.end)
+        : typeof value !== "string" || !value.trim();
+    })
+    .map((v) => v.label);
+}
+
+export interface FilledTemplate {
+  text: string;
+  briefDescription: string;
+  // The first date range filled in, for the date range the review step shows
+  dateRange?: DateRange;
+}
+
+export function fillTemplate(template: RequestTemplate, values: TemplateValues): FilledTemplate {
+  const fill = (text: string) =>
+    text.replace(PLACEHOLDER_PATTERN, (placeholder, key: string) => {
+      const variable = template.variables.find((v) => v.key === key);
+      return variable ? formatValue(variable, values[key]) : placeholder;
+    });
+
+  const range = template.variables.find((v) => v.type === "dateRange");
+  const rangeValue = range ? values[range.key] : undefined;
+
+  return {
+    text: fill(template.text),
+    briefDescription: fill(template.briefDescription),
+    dateRange: typeof rangeValue === "object" ? rangeValue : undefined,
+  };
+}
+
+// First problem with a template sent to the API, or null when it can be saved
+export function checkTemplate(input: Partial<NewRequestTemplate>): string | null {
+  if (typeof input.name !== "string" || !input.name.trim()) {
+    return "Template name is required";
+  }
+  if (typeof input.text !== "string" || !input.text.trim()) {
+    return "Template text is required";
+  }
+  if (!TEMPLATE_MODES.some((m) => m.id === input.mode)) {
+    return `Invalid template mode: ${input.mode}`;
+  }
+  if (
+    !Array.isArray(input.variables) ||
+    !input.variables.every(
+      (v) =>
+        typeof v?.key === "string" &&
+        typeof v?.label === "string" &&
+        v.label.trim() &&
+        TEMPLATE_VARIABLE_TYPES.some((t) => t.id === v.type)
+    )
+  ) {
+    return "Each variable needs a key, a label and a type";
+  }
+
+  const declared = input.variables.map((v) => v.key);
+  const used = findPlaceholders(`${input.text} ${input.briefDescription || ""}`);
+  const undeclared = used.filter((key) => !declared.includes(key));
+  if (undeclared.length > 0) {
+    return `Placeholders without a variable: ${undeclared.join(", ")}`;
+  }
+  return null;
+}
@@ -0,0 +1,91 @@
+// Requester details: defaults, validation and saved profile kinds
+import { RequesterProfileKind, UserDetails } from "@/lib/types";
+
+export const DEFAULT_DETAILS: UserDetails = {
+  firstName: "",
+  lastName: "",
+  email: "",
+  phone: "",
+  address: {
+    line1: "",
+    line2: "",
+    city: "",
+    state: "",
+    zip: "",
+  },
+  feeCategory: "other",
+  maxFee: 25,
+  feeWaiverRequested: false,
+  feeWaiverReason: "",
+};
+
+export const PROFILE_KINDS: RequesterProfileKind[] = ["personal", "newsroom", "university"];
+
+export const PROFILE_KIND_LABELS: Record<RequesterProfileKind, string> = {
+  personal: "Personal",
+  newsroom: "Newsroom",
+  university: "University",
+};
+
+// Fee category each kind of requester usually qualifies for
+export const PROFILE_KIND_FEE_CATEGORY: Record<RequesterProfileKind, UserDetails["feeCategory"]> = {
+  personal: "other",
+  newsroom: "news_media",
+  university: "educational",
+};
+
+export function isProfileKind(value: unknown): value is RequesterProfileKind {
+  return PROFILE_KINDS.includes(value as RequesterProfileKind);
+}
+
+function isFilled(value: unknown): boolean {
+  return typeof value === "string" && value.trim() !== "";
+}
+
+// Errors keyed by field id; empty when the details are complete. Details can
+// come straight from an API body, so every field is type-checked first.
+export function validateDetails(details: UserDetails): Record<string, string> {
+  const errors: Record<string, string> = {};
+  const address: Partial<UserDetails["address"]> =
+    details.address && typeof details.address === "object" ? details.address : {};
+
+  if (!isFilled(details.firstName)) errors.firstName = "First name is required";
+  if (!isFilled(details.lastName)) errors.lastName = "Last name is required";
+  if (!isFilled(details.email)) errors.email = "Email is required";
+  else if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(details.email)) {
+    errors.email = "Invalid email address";
+  }
+  if (!isFilled(address.line1)) errors.line1 = "Address is required";
+  if (!isFilled(address.city)) errors.city = "City is required";
+  if (!isFilled(address.state)) errors.state = "State is required";
+  if (!isFilled(address.zip)) errors.zip = "ZIP code is required";
+  if (details.feeWaiverRequested && !isFilled(details.feeWaiverReason)) {
+    errors.feeWaiverReason = "Please explain why you qualify for a fee waiver";
+  }
+
+  return errors;
+}
+
+// First problem with a profile sent to the API, or null when it can be saved
+export function checkProfile(input: {
+  name?: unknown;
+  kind?: unknown;
+  details?: UserDetails;
+}): string | null {
+  if (typeof input.name !== "string" || !input.name.trim()) {
+    return "Profile name is required";
+  }
+  if (!isProfileKind(input.kind)) {
+    return `Invalid profile kind: ${input.kind}`;
+  }
+  if (
+    !input.details ||
+    typeof input.details !== "object" ||
+    !input.details.address ||
+    typeof input.details.address !== "object"
+  ) {
+    return "Requester details are required";
+  }
+  const errors = Object.values(validateDetails(input.details));
+  return errors.length > 0 ? errors[0] : null;
+}
@@ -0,0 +1,150 @@
+// Server-side store of every FOIA request we have filed
+import { randomUUID } from "crypto";
+import {
+  FOIARequest,
+  NewFOIARequest,
+  FOIARequestUpdate,
+  FollowUp,
+  Correspondence,
+  CorrespondenceClassification,
+} from "@/lib/types";
+import { readCollection, writeCollection } from "@/lib/store";
+
+const COLLECTION = "requests";
+
+export function listRequests(): FOIARequest[] {
+  // Newest first
+  return readCollection<FOIARequest>(COLLECTION).sort((a, b) =>
+    b.createdAt.localeCompare(a.createdAt)
+  );
+}
+
+export function getRequest(id: string): FOIARequest | null {
+  return readCollection<FOIARequest>(COLLECTION).find((r) => r.id === id) || null;
+}
+
+export function createRequest(input: NewFOIARequest): FOIARequest {
+  const now = new Date().toISOString();
+  const request: FOIARequest = {
+    ...input,
+    id: randomUUID(),
+    statusHistory: [{ status: input.status, at: now }],
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  const requests = readCollection<FOIARequest>(COLLECTION);
+  requests.push(request);
+  writeCollection(COLLECTION, requests);
+
+  return request;
+}
+
+// Read-modify-write a single request, stamping updatedAt
+function mutateRequest(
+  id: string,
+  mutate: (existing: FOIARequest, now: string) => FOIARequest
+): FOIARequest | null {
+  const requests = readCollection<FOIARequest>(COLLECTION);
+  const index = requests.findIndex((r) => r.id === id);
+  if (index === -1) {
+    return null;
+  }
+
+  const now = new Date().toISOString();
+  const updated: FOIARequest = {
+    ...mutate(requests[index], now),
+    id,
+    updatedAt: now,
+  };
+
+  requests[index] = updated;
+  writeCollection(COLLECTION, requests);
+
+  return updated;
+}
+
+function applyUpdate(existing: FOIARequest, update: FOIARequestUpdate, now: string): FOIARequest {
+  const updated: FOIARequest = { ...existing, ...update };
+
+  if (update.status && update.status !== existing.status) {
+    updated.statusHistory = [
+      ...(existing.statusHistory || []),
+      { status: update.status, at: now },
+    ];
+  }
+
+  // Moving out of draft for the first time stamps the submission date
+  if (update.status && update.status !== "draft" && !updated.submittedAt) {
+    updated.submittedAt = now;
+  }
+
+  // A final response starts the appeal window
+  if (
+    (update.status === "completed" || update.status === "rejected") &&
+    !updated.determinationDate
+  ) {
+    updated.determinationDate = now;
+  }
+
+  return updated;
+}
+
+export function updateRequest(id: string, update: FOIARequestUpdate): FOIARequest | null {
+  return mutateRequest(id, (existing, now) => applyUpdate(existing, update, now));
+}
+
+export function addFollowUp(id: string, followUp: FollowUp): FOIARequest | null {
+  return mutateRequest(id, (existing) => ({
+    ...existing,
+    followUps: [...(existing.followUps || []), followUp],
+  }));
+}
+
+// Attach an agency reply, applying any status or tracking changes it implies
+export function addCorrespondence(
+  id: string,
+  correspondence: Correspondence,
+  update: FOIARequestUpdate = {}
+): FOIARequest | null {
+  return mutateRequest(id, (existing, now) =>
+    applyUpdate(
+      {
+        ...existing,
+        correspondence: [...(existing.correspondence || []), correspondence],
+      },
+      update,
+      now
+    )
+  );
+}
+
+export function updateClassification(
+  id: string,
+  correspondenceId: string,
+  classification: CorrespondenceClassification,
+  update: FOIARequestUpdate = {}
+): FOIARequest | null {
+  return mutateRequest(id, (existing, now) =>
+    applyUpdate(
+      {
+        ...existing,
+        correspondence: (existing.correspondence || []).map((c) =>
+          c.id === correspondenceId ? { ...c, classification } : c
+        ),
+      },
+      update,
+      now
+    )
+  );
+}
+
+export function deleteRequest(id: string): boolean {
+  const requests = readCollection<FOIARequest>(COLLECTION);
+  const remaining = requests.filter((r) => r.id !== id);
+  if (remaining.length === requests.length) {
+    return false;
+  }
+  writeCollection(COLLECTION, remaining);
+  return true;
+}
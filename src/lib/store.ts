@@ -0,0 +1,49 @@
+// File-backed JSON collections for server-side persistence
+// Each collection lives in its own file under the data directory.
+
+import * as fs from "fs";
+import * as path from "path";
+
+export function getDataDir(): string {
+  return process.env.FOIA_DATA_DIR || path.join(process.cwd(), "data");
+}
+
+function collectionPath(name: string): string {
+  return path.join(getDataDir(), `${name}.json`);
+}
+
+export function readCollection<T>(name: string): T[] {
+  const filePath = collectionPath(name);
+  if (!fs.existsSync(filePath)) {
+    return [];
+  }
+  const data = fs.readFileSync(filePath, "utf-8");
+  return JSON.parse(data);
+}
+
+export function writeCollection<T>(name: string, items: T[]): void {
+  const filePath = collectionPath(name);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+  // Write to a temp file first so a crash mid-write never leaves a truncated collection
+  const tmpPath = `${filePath}.${process.pid}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify(items, null, 2));
+  fs.renameSync(tmpPath, filePath);
+}
+
+// Binary files (e.g. email attachments) stored alongside the collections
+export function writeDataFile(relativePath: string, content: Buffer): void {
+  const filePath = path.join(getDataDir(), relativePath);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, content);
+}
+
+export function readDataFile(relativePath: string): Buffer | null {
+  const dataDir = getDataDir();
+  const filePath = path.resolve(dataDir, relativePath);
+  // Never serve anything outside the data directory
+  if (!filePath.startsWith(path.resolve(dataDir) + path.sep) || !fs.existsSync(filePath)) {
+    return null;
+  }
+  return fs.readFileSync(filePath);
+}
@@ -0,0 +1,40 @@
+// Server-side store of request templates users have saved
+import { randomUUID } from "crypto";
+import { NewRequestTemplate, RequestTemplate } from "@/lib/types";
+import { readCollection, writeCollection } from "@/lib/store";
+import { BUILT_IN_TEMPLATES } from "@/lib/request-templates";
+
+const COLLECTION = "templates";
+
+// Built-in templates first, then saved ones by name
+export function listTemplates(): RequestTemplate[] {
+  const saved = readCollection<RequestTemplate>(COLLECTION).sort((a, b) =>
+    a.name.localeCompare(b.name)
+  );
+  return [...BUILT_IN_TEMPLATES, ...saved];
+}
+
+export function createTemplate(input: NewRequestTemplate): RequestTemplate {
+  const template: RequestTemplate = {
+    ...input,
+    id: randomUUID(),
+    createdAt: new Date().toISOString(),
+  };
+
+  const templates = readCollection<RequestTemplate>(COLLECTION);
+  templates.push(template);
+  writeCollection(COLLECTION, templates);
+
+  return template;
+}
+
+// Built-in templates can't be deleted
+export function deleteTemplate(id: string): boolean {
+  const templates = readCollection<RequestTemplate>(COLLECTION);
+  const remaining = templates.filter((t) => t.id !== id);
+  if (remaining.length === templates.length) {
+    return false;
+  }
+  writeCollection(COLLECTION, remaining);
+  return true;
+}
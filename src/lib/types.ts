@@ -32,14 +32,48 @@ export interface AgencyComponent {
   };
 }
 
+export interface DateRange {
+  start?: string; // ISO date
+  end?: string; // ISO date
+}
+
+export type SuggestionConfidence = "high" | "medium" | "low";
+
+// A component likely to hold the records, resolved against agency-emails.json
+export interface AgencySuggestion {
+  componentId: string;
+  rationale: string;
+  confidence: SuggestionConfidence;
+}
+
 export interface RephraseResponse {
   original: string;
   rephrased: string;
-  suggestedAgency?: string;
-  suggestedAgencyId?: string;
+  suggestedAgencies: AgencySuggestion[]; // best match first
+  dateRange?: DateRange;
+  recordTypes: string[];
   briefDescription: string;
 }
 
+// Asked instead of drafting when a query is too vague to describe the
+// records reasonably
+export interface ClarifyingQuestion {
+  question: string;
+  why: string;
+}
+
+export interface ClarifyingAnswer {
+  question: string;
+  answer: string;
+}
+
+export interface ClarificationResponse {
+  original: string;
+  clarifyingQuestions: ClarifyingQuestion[];
+}
+
+export type RephraseResult = RephraseResponse | ClarificationResponse;
+
 export interface UserDetails {
   firstName: string;
   lastName: string;
@@ -56,33 +90,313 @@ export interface UserDetails {
   maxFee: number;
   feeWaiverRequested: boolean;
   feeWaiverReason?: string;
+  organization?: string;
+  signature?: string; // closes letters in place of the requester's name
+}
+
+export type RequesterProfileKind = "personal" | "newsroom" | "university";
+
+// Saved requester details, so people filing for themselves and for an
+// employer don't retype them. Fee category and waiver justification in
+// details are the profile's defaults.
+export interface RequesterProfile {
+  id: string;
+  name: string;
+  kind: RequesterProfileKind;
+  details: UserDetails;
+  createdAt: string; // ISO timestamp
+  updatedAt: string; // ISO timestamp
+}
+
+export type NewRequesterProfile = Omit<RequesterProfile, "id" | "createdAt" | "updatedAt">;
+
+export type RequestStatus =
+  | "draft"
+  | "submitted"
+  | "acknowledged"
+  | "pending"
+  | "completed"
+  | "rejected";
+
+export type SubmissionChannel = "email" | "portal";
+
+export interface StatusChange {
+  status: RequestStatus;
+  at: string; // ISO timestamp
+}
+
+// Days during which the response clock is stopped, e.g. while the agency
+// waits on a clarification or fee agreement from the requester
+export interface TollingPeriod {
+  start: string; // ISO date
+  end?: string; // ISO date, unset while the clock is still stopped
+}
+
+export interface FollowUp {
+  sentAt: string; // ISO timestamp
+  to: string;
+  subject: string;
+  body: string;
+}
+
+export interface AppealDraft {
+  determinationDate: string; // ISO date
+  determinationText: string;
+  exemptions: string[];
+  subject: string;
+  letter: string;
+  appealDue: string; // ISO date
+  createdAt: string;
+}
+
+export interface Attachment {
+  id: string;
+  filename: string;
+  contentType: string;
+  size: number;
+  path: string; // relative to the data directory
+}
+
+export type CorrespondenceKind =
+  | "acknowledgement"
+  | "tracking_number"
+  | "fee_estimate"
+  | "clarification_request"
+  | "interim_release"
+  | "final_determination"
+  | "denial";
+
+export interface CorrespondenceClassification {
+  kind: CorrespondenceKind;
+  summary: string;
+  trackingNumber?: string;
+  estimatedFee?: number;
+  exemptions?: string[];
+  actionNeeded: boolean;
+  actionSummary?: string;
+  classifiedAt: string; // ISO timestamp
+  actionResolvedAt?: string; // ISO timestamp
+}
+
+// A message from the agency about a request
+export interface Correspondence {
+  id: string;
+  receivedAt: string; // ISO timestamp
+  from: string;
+  subject: string;
+  text: string;
+  html?: string;
+  attachments: Attachment[];
+  source: "sendgrid" | "mailjet" | "raw";
+  classification?: CorrespondenceClassification;
+}
+
+// A headless browser holding a pre-filled portal form while the requester
+// completes the CAPTCHA and submits it through the live view
+export type PortalSessionStatus =
+  | "filling"
+  | "awaiting_user"
+  | "submitted"
+  | "cancelled"
+  | "expired"
+  | "failed";
+
+export interface PortalSessionInfo {
+  id: string;
+  agencyId: string;
+  requestId?: string;
+  status: PortalSessionStatus;
+  message: string;
+  expiresAt: string; // ISO timestamp
+  viewport: { width: number; height: number };
+  confirmationNumber?: string;
+  report?: PortalFieldReport[];
+}
+
+// How one portal field came out of filling: typed and read back intact, not
+// on the page, refused by the form, read back different from what was typed,
+// or required with nothing to put in it
+export type PortalFieldStatus = "filled" | "missing" | "rejected" | "mismatch" | "unanswered";
+
+export interface PortalFieldReport {
+  id: string; // DOM id on the portal form
+  label: string;
+  status: PortalFieldStatus;
+  expected?: string;
+  actual?: string;
+  message?: string;
+}
+
+// Input forwarded from the live view to the portal page, in viewport pixels
+export type PortalInput =
+  | { type: "click"; x: number; y: number }
+  | { type: "type"; text: string }
+  | { type: "press"; key: string }
+  | { type: "scroll"; deltaY: number };
+
+// How a portal session ended, kept on the request it filed
+export interface PortalOutcome {
+  status: Exclude<PortalSessionStatus, "filling" | "awaiting_user">;
+  at: string; // ISO timestamp
+  message?: string;
+}
+
+// A form field as it read just before the portal form was submitted
+export interface PortalFieldValue {
+  id: string; // DOM id on the portal form
+  label: string;
+  value: string;
+}
+
+// Proof of a portal submission, captured from the confirmation page
+export interface PortalReceipt {
+  confirmationNumber?: string;
+  capturedAt: string; // ISO timestamp
+  url: string;
+  screenshot?: Attachment;
+  pdf?: Attachment;
+  submittedValues: PortalFieldValue[];
 }
 
 export interface FOIARequest {
-  id?: string;
+  id: string;
   query: string;
   rephrasedRequest: string;
   briefDescription: string;
   agency: Agency | AgencyComponent;
   userDetails: UserDetails;
-  status: "draft" | "submitted" | "pending" | "completed" | "rejected";
-  submittedAt?: Date;
+  status: RequestStatus;
+  channel: SubmissionChannel;
+  agencyEmail?: string;
+  submittedAt?: string; // ISO timestamp
   trackingNumber?: string;
+  batchId?: string; // shared by requests fanned out to several agencies at once
+  importId?: string; // shared by requests filed from one bulk CSV import
+  determinationDate?: string; // ISO date of the agency's final response
+  tollingPeriods?: TollingPeriod[];
+  followUps?: FollowUp[];
+  appeal?: AppealDraft;
+  correspondence?: Correspondence[];
+  portalOutcome?: PortalOutcome;
+  portalReceipt?: PortalReceipt;
+  statusHistory: StatusChange[];
+  createdAt: string;
+  updatedAt: string;
 }
 
+// Fields supplied when filing a new request; the store assigns the rest
+export type NewFOIARequest = Omit<
+  FOIARequest,
+  "id" | "statusHistory" | "createdAt" | "updatedAt"
+>;
+
+// Fields that can be changed after a request has been filed
+export type FOIARequestUpdate = Partial<
+  Pick<
+    FOIARequest,
+    | "status"
+    | "trackingNumber"
+    | "submittedAt"
+    | "determinationDate"
+    | "tollingPeriods"
+    | "appeal"
+    | "portalOutcome"
+    | "portalReceipt"
+  >
+>;
+
 export interface WizardState {
   step: 1 | 2 | 3 | 4;
   query: string;
   rephraseResponse: RephraseResponse | null;
-  selectedAgency: AgencyComponent | null;
+  clarifyingQuestions: ClarifyingQuestion[] | null;
+  selectedAgencies: AgencyComponent[];
   userDetails: UserDetails | null;
   isLoading: boolean;
   error: string | null;
 }
 
+export type TemplateVariableType = "text" | "name" | "keywords" | "dateRange";
+
+// A {{key}} placeholder in a template's text
+export interface TemplateVariable {
+  key: string;
+  label: string;
+  type: TemplateVariableType;
+}
+
+// "seed" templates are a query for the rephrase step to draft from; "direct"
+// templates are already a formal request and skip it
+export type TemplateMode = "seed" | "direct";
+
+export interface RequestTemplate {
+  id: string;
+  name: string;
+  description: string;
+  mode: TemplateMode;
+  text: string;
+  briefDescription: string;
+  variables: TemplateVariable[];
+  recordTypes?: string[];
+  builtIn?: boolean;
+  createdAt?: string; // ISO timestamp, for templates users saved
+}
+
+export type NewRequestTemplate = Omit<RequestTemplate, "id" | "builtIn" | "createdAt">;
+
+// Text for text, name and keywords variables; a range for dateRange ones
+export type TemplateValues = Record<string, string | DateRange>;
+
+// A wizard in progress, kept in the browser so several can be open at once
+export interface WizardDraft {
+  id: string;
+  state: WizardState;
+  editedRequest: string;
+  createdAt: string; // ISO timestamp
+  updatedAt: string; // ISO timestamp
+}
+
+// Outcome for one agency when a request is sent to several at once
+export interface AgencySubmitResult {
+  agency: AgencyComponent;
+  channel: SubmissionChannel;
+  success: boolean;
+  message: string;
+  requestId?: string;
+  emailSentTo?: string;
+}
+
+export type BulkRowStatus = "sent" | "queued" | "failed" | "invalid";
+
+export interface BulkRowResult {
+  row: number; // row in the uploaded CSV, counting the header as 1 and skipping blank lines
+  status: BulkRowStatus;
+  message: string;
+  agency?: AgencyComponent;
+  requestId?: string;
+  emailSentTo?: string;
+  rephrasedRequest?: string;
+  warnings?: string[];
+}
+
+export type BulkImportStatus = "running" | "done";
+
+// A bulk CSV import, filed row by row in the background
+export interface BulkImport {
+  id: string;
+  status: BulkImportStatus;
+  total: number; // rows in the file
+  results: BulkRowResult[]; // rows processed so far, in file order
+  createdAt: string;
+  updatedAt: string;
+}
+
 export interface SubmitResponse {
   success: boolean;
   message: string;
   trackingId?: string;
   emailSentTo?: string;
+  requestId?: string;
+  batchId?: string;
+  results?: AgencySubmitResult[];
 }